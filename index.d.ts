@@ -13,3 +13,7 @@ interface CustomEventMap {
 
 type ContentIndex = Record<FullSlug, ContentDetails>;
 declare const fetchData: Promise<ContentIndex>;
+
+// Globals of the Leaflet and Lucide scripts loaded by the LeafletMap plugin
+declare const L: typeof import("leaflet");
+declare const lucide: typeof import("lucide");
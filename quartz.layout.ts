@@ -42,6 +42,7 @@ export const defaultContentPageLayout: PageLayout = {
     }),
   ],
   right: [
+    Component.LocationMap(),
     Component.Graph(),
     Component.DesktopOnly(Component.TableOfContents()),
     Component.Backlinks(),
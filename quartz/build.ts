@@ -50,6 +50,7 @@ async function buildQuartz(argv: Argv, mut: Mutex, clientRefresh: () => void) {
     allSlugs: [],
     allFiles: [],
     incremental: false,
+    collected: {},
   };
 
   const perf = new PerfTimer();
@@ -85,6 +86,7 @@ async function buildQuartz(argv: Argv, mut: Mutex, clientRefresh: () => void) {
   const filteredContent = filterContent(ctx, parsedFiles);
 
   await emitContent(ctx, filteredContent);
+  reportContent(ctx, filteredContent);
   console.log(
     styleText("green", `Done processing ${markdownPaths.length} files in ${perf.timeSince()}`),
   );
@@ -96,6 +98,12 @@ async function buildQuartz(argv: Argv, mut: Mutex, clientRefresh: () => void) {
   }
 }
 
+function reportContent(ctx: BuildCtx, content: ProcessedContent[]) {
+  for (const plugin of ctx.cfg.plugins.transformers) {
+    plugin.report?.(ctx, content);
+  }
+}
+
 // setup watcher for rebuilds
 async function startWatching(
   ctx: BuildCtx,
@@ -208,7 +216,46 @@ async function rebuild(changes: ChangeEvent[], clientRefresh: () => void, buildD
     pathsToParse.push(fullPath);
   }
 
-  const parsed = await parseMarkdown(ctx, pathsToParse);
+  // files that are not parsed again still take part in the collection phase
+  const unchangedContent: ProcessedContent[] = [];
+  for (const [fp, file] of contentMap) {
+    if (file.type === "markdown" && !(fp in changesSinceLastBuild)) {
+      unchangedContent.push(file.content);
+    }
+  }
+
+  const previousCollected = ctx.collected;
+  const parsed = await parseMarkdown(
+    ctx,
+    pathsToParse,
+    unchangedContent.map(([_tree, file]) => file),
+  );
+
+  // pages which render data collected from other files have to be re-rendered when that data
+  // changed, even if the pages themselves did not
+  const staleCollectors = cfg.plugins.transformers.filter(
+    (plugin) =>
+      plugin.collect &&
+      JSON.stringify(previousCollected[plugin.name]) !== JSON.stringify(ctx.collected[plugin.name]),
+  );
+  const dependentContent = unchangedContent.filter(([_tree, file]) =>
+    staleCollectors.some((plugin) =>
+      plugin.dependsOnCollected?.(file, previousCollected[plugin.name], ctx.collected[plugin.name]),
+    ),
+  );
+  if (dependentContent.length > 0) {
+    const dependentPaths = dependentContent.map(([_tree, file]) => file.data.relativePath!);
+    parsed.push(
+      ...(await parseMarkdown(
+        ctx,
+        dependentPaths.map((fp) => joinSegments(argv.directory, fp) as FilePath),
+        [...parsed, ...unchangedContent]
+          .map(([_tree, file]) => file)
+          .filter((file) => !dependentPaths.includes(file.data.relativePath!)),
+      )),
+    );
+  }
+
   for (const content of parsed) {
     contentMap.set(content[1].data.relativePath!, {
       type: "markdown",
@@ -234,7 +281,13 @@ async function rebuild(changes: ChangeEvent[], clientRefresh: () => void, buildD
     }
   }
 
-  const changeEvents: ChangeEvent[] = Object.entries(changesSinceLastBuild).map(([fp, type]) => {
+  const dependentChanges: Record<FilePath, ChangeEvent["type"]> = Object.fromEntries(
+    dependentContent.map(([_tree, file]) => [file.data.relativePath!, "change"]),
+  );
+  const changeEvents: ChangeEvent[] = Object.entries({
+    ...changesSinceLastBuild,
+    ...dependentChanges,
+  }).map(([fp, type]) => {
     const path = fp as FilePath;
     const processedContent = contentMap.get(path);
     if (processedContent?.type === "markdown") {
@@ -293,6 +346,13 @@ async function rebuild(changes: ChangeEvent[], clientRefresh: () => void, buildD
   console.log(
     `Emitted ${emittedFiles} files to \`${argv.output}\` in ${perf.timeSince("rebuild")}`,
   );
+
+  // a failed check should not stop the watcher, the next change may well fix it
+  try {
+    reportContent(ctx, processedFiles);
+  } catch (err) {
+    console.error(styleText("red", (err as Error).message));
+  }
   console.log(styleText("green", `Done rebuilding in ${perf.timeSince()}`));
   changes.splice(0, numChangesInBuild);
   clientRefresh();
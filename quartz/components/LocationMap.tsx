@@ -0,0 +1,44 @@
+import { QuartzComponent, QuartzComponentConstructor, QuartzComponentProps } from "./types";
+import style from "./styles/locationMap.scss";
+import { buildLocationMap } from "../plugins/transformers/leafletMapPlugin";
+import { htmlToJsx } from "../util/jsx";
+import { classNames } from "../util/lang";
+
+interface Options {
+  title: string;
+  linkText: string;
+  // Let readers pan and zoom the map, which otherwise stays put while the sidebar scrolls
+  interactive: boolean;
+}
+
+const defaultOptions: Options = {
+  title: "Location",
+  linkText: "View on full map",
+  interactive: false,
+};
+
+/**
+ * Shows where the markers of the current note are, on the map they belong to.
+ * Needs the LeafletMap plugin, which loads the scripts that draw the map.
+ */
+export default ((userOpts?: Partial<Options>) => {
+  const opts: Options = { ...defaultOptions, ...userOpts };
+
+  const LocationMap: QuartzComponent = ({ ctx, fileData, displayClass }: QuartzComponentProps) => {
+    const location = buildLocationMap(ctx, fileData, opts.interactive);
+    if (!location) return null;
+
+    return (
+      <div class={classNames(displayClass, "location-map")}>
+        <h3>{opts.title}</h3>
+        {htmlToJsx(fileData.filePath!, location.element)}
+        <a href={location.link} class="internal">
+          {opts.linkText}
+        </a>
+      </div>
+    );
+  };
+
+  LocationMap.css = style;
+  return LocationMap;
+}) satisfies QuartzComponentConstructor;
@@ -0,0 +1,1500 @@
+import type {
+  CircleMarker,
+  Coords,
+  LatLng,
+  LatLngBoundsExpression,
+  LatLngTuple,
+  Layer,
+  LayerGroup,
+  LeafletMouseEvent,
+  Map as LeafletMap,
+  MapOptions,
+  Marker,
+  Polyline,
+  TileLayerOptions,
+  Tooltip,
+} from "leaflet";
+import type {
+  LayerDataset,
+  LocationMapDataset,
+  MapDataset,
+  MarkerDataset,
+  PathDataset,
+  RegionDataset,
+} from "../../plugins/transformers/leafletMapPlugin";
+import type { TilePyramid } from "../../plugins/emitters/leafletTiles";
+import type { IconNode } from "lucide";
+import { encoder, fetchCanonical } from "./util";
+
+const markerKeys: (keyof MarkerDataset)[] = [
+  "name",
+  "link",
+  "slug",
+  "coordinates",
+  "icon",
+  "colour",
+  "minZoom",
+  "category",
+];
+const mapKeys: (keyof MapDataset)[] = [
+  "height",
+  "minZoom",
+  "maxZoom",
+  "defaultZoom",
+  "zoomDelta",
+  "scale",
+  "unit",
+  "popups",
+  "clusterRadius",
+  "coordinateSystem",
+];
+const regionKeys: (keyof RegionDataset)[] = [
+  "name",
+  "link",
+  "vertices",
+  "colour",
+  "fillColour",
+  "opacity",
+];
+const pathKeys: (keyof PathDataset)[] = ["name", "link", "points", "colour", "width"];
+const layerKeys: (keyof LayerDataset)[] = ["name", "src", "overlay", "opacity"];
+
+function isMarkerDataset(dataset: DOMStringMap): dataset is MarkerDataset {
+  return markerKeys.every((key) => dataset[key] !== undefined);
+}
+
+function isMapDataset(dataset: DOMStringMap): dataset is MapDataset {
+  return mapKeys.every((key) => dataset[key] !== undefined);
+}
+
+function isLocationMapDataset(dataset: DOMStringMap): dataset is LocationMapDataset {
+  return dataset.interactive !== undefined && isMapDataset(dataset);
+}
+
+function isRegionDataset(dataset: DOMStringMap): dataset is RegionDataset {
+  return regionKeys.every((key) => dataset[key] !== undefined);
+}
+
+function isPathDataset(dataset: DOMStringMap): dataset is PathDataset {
+  return pathKeys.every((key) => dataset[key] !== undefined);
+}
+
+function isLayerDataset(dataset: DOMStringMap): dataset is LayerDataset {
+  return layerKeys.every((key) => dataset[key] !== undefined);
+}
+
+function parseCoordinates(coordinates: string): LatLngTuple {
+  const parsed = coordinates.split(",").map((value) => parseFloat(value));
+  if (parsed.length !== 2 || parsed.some(isNaN)) {
+    throw new Error("Coordinates not properly validated");
+  }
+  return [parsed[0], parsed[1]];
+}
+
+type Projection = (coordinates: string) => LatLngTuple;
+
+// Image pixels count down from the top of the image, while latitudes count up from the bottom
+function getProjection(coordinateSystem: string, height: number): Projection {
+  if (coordinateSystem !== "image-pixels") return parseCoordinates;
+  return (coordinates) => {
+    const [lat, lng] = parseCoordinates(coordinates);
+    return [height - lat, lng];
+  };
+}
+
+// Reads a point of the map back in the coordinates notes place markers with, undoing the flip of
+// the coordinate system and the origin and axis scale applied while building
+type Unprojection = (latlng: LatLng) => string;
+
+function getUnprojection(
+  { coordinateSystem, origin, axisScale }: MapDataset,
+  height: number,
+): Unprojection {
+  const [originLat, originLng] = parseCoordinates(origin ?? "0, 0");
+  const scale = parseFloat(axisScale ?? "1");
+  const round = (value: number) => parseFloat(value.toFixed(2));
+  return ({ lat, lng }) => {
+    const pixelLat = coordinateSystem === "image-pixels" ? height - lat : lat;
+    return `${round((pixelLat - originLat) / scale)}, ${round((lng - originLng) / scale)}`;
+  };
+}
+
+function distance(a: LatLng, b: LatLng): number {
+  return Math.sqrt((a.lat - b.lat) ** 2 + (a.lng - b.lng) ** 2);
+}
+
+function formatDistance(distance: number, unit: string): string {
+  return `${distance.toFixed(1)} ${unit}`;
+}
+
+// Travel modes of the map, with their speed in the unit of the map per day
+interface TravelMode {
+  name: string;
+  speed: number;
+}
+
+function formatTravelTime(days: number): string {
+  return `${days.toFixed(1)} days`;
+}
+
+function createIcons(root: HTMLElement) {
+  lucide.createIcons({ attrs: { class: "leaflet-marker-inner-icon" }, root });
+}
+
+function openNote(link: string, map: LeafletMap) {
+  // Clicks place points while measuring, they should not leave the map
+  if (L.DomUtil.hasClass(map.getContainer(), "leaflet-crosshair")) return;
+  window.spaNavigate(new URL(link, window.location.toString()));
+}
+
+/**
+ * MARKERS
+ */
+
+function getMarkerData(mapElement: HTMLElement): MarkerDataset[] {
+  const markers: MarkerDataset[] = [];
+  mapElement.querySelectorAll<HTMLElement>("div.leaflet-marker").forEach((element) => {
+    if (isMarkerDataset(element.dataset)) markers.push(element.dataset);
+    element.remove();
+  });
+  return markers;
+}
+
+// Without a link the marker only opens its popup
+function buildMarkerIcon(link: string | undefined, icon: string, colour: string) {
+  const href = link !== undefined ? ` href="${link}"` : "";
+  return L.divIcon({
+    className: "leaflet-marker-icon",
+    html: `<a${href}><svg class="leaflet-marker-pin" style="fill:${colour}" viewBox="0 0 32 48"><path d="m32,19c0,12 -12,24 -16,29c-4,-5 -16,-16 -16,-29a16,19 0 0 1 32,0"/></svg><i data-lucide="${icon}"></i></a>`,
+    iconSize: [32, 48],
+    iconAnchor: [16, 48],
+    tooltipAnchor: [17, -30],
+    popupAnchor: [0, -44],
+  });
+}
+
+interface MapMarker {
+  marker: Marker;
+  name: string;
+  slug: string;
+  aliases: string[];
+  minZoom: number;
+  category: string;
+  // Layer the marker is placed on, it is hidden along with it
+  layer?: Layer;
+  // In-world years the marker exists in, markers without them exist in every year
+  from?: number;
+  to?: number;
+}
+
+// Zoom levels are fractional, allow for rounding errors
+const zoomEpsilon = 1e-5;
+
+// Categories unchecked in the legend, shared by all maps and kept across page loads
+const hiddenCategoriesKey = "leafletHiddenCategories";
+
+function getHiddenCategories(): Set<string> {
+  const stored: unknown = JSON.parse(localStorage.getItem(hiddenCategoriesKey) ?? "[]");
+  return new Set(Array.isArray(stored) ? stored : []);
+}
+
+function setHiddenCategories(categories: Set<string>) {
+  localStorage.setItem(hiddenCategoriesKey, JSON.stringify([...categories]));
+}
+
+// Every marker exists while no year is selected on the timeline
+function existsInYear({ from, to }: MapMarker, year: number | undefined): boolean {
+  if (year === undefined) return true;
+  return (from === undefined || from <= year) && (to === undefined || year <= to);
+}
+
+// Whether the marker is on a visible layer, its category is not hidden and it exists in the
+// selected year, regardless of the zoom
+function isMarkerEnabled(
+  mapMarker: MapMarker,
+  map: LeafletMap,
+  hiddenCategories: Set<string>,
+  year: number | undefined,
+): boolean {
+  const { layer, category } = mapMarker;
+  const onVisibleLayer = layer === undefined || map.hasLayer(layer);
+  return onVisibleLayer && !hiddenCategories.has(category) && existsInYear(mapMarker, year);
+}
+
+function isMarkerVisible(
+  mapMarker: MapMarker,
+  map: LeafletMap,
+  hiddenCategories: Set<string>,
+  year: number | undefined,
+): boolean {
+  return (
+    map.getZoom() >= mapMarker.minZoom - zoomEpsilon &&
+    isMarkerEnabled(mapMarker, map, hiddenCategories, year)
+  );
+}
+
+function showMarker(marker: Marker, map: LeafletMap) {
+  marker.addTo(map);
+  const element = marker.getElement();
+  if (element) createIcons(element);
+}
+
+const parser = new DOMParser();
+
+// Reads the description the `Description` transformer put into the head of the note
+async function fetchDescription(link: string): Promise<string | undefined> {
+  const response = await fetchCanonical(new URL(link, window.location.toString())).catch(
+    (error) => {
+      console.error(error);
+    },
+  );
+  if (!response?.ok) return;
+
+  const html = parser.parseFromString(await response.text(), "text/html");
+  return html.querySelector<HTMLMetaElement>('meta[name="description"]')?.content;
+}
+
+function buildPopupContent({ name, link, cover }: MarkerDataset, marker: Marker): HTMLElement {
+  const content = L.DomUtil.create("div", "leaflet-marker-popup");
+  if (cover !== undefined) {
+    const image = L.DomUtil.create("img", "leaflet-marker-popup-cover", content);
+    image.src = cover;
+    image.alt = name;
+  }
+  L.DomUtil.create("h3", "", content).textContent = name;
+  const description = L.DomUtil.create("p", "leaflet-marker-popup-description", content);
+  const anchor = L.DomUtil.create("a", "internal", content);
+  anchor.href = link;
+  anchor.textContent = "Open note";
+
+  // Left empty, and so hidden, when the note cannot be read
+  fetchDescription(link)
+    .then((text) => {
+      description.textContent = text ?? "";
+      // The popup has to be resized and repositioned around its new content
+      marker.getPopup()?.update();
+    })
+    .catch(() => {});
+  return content;
+}
+
+function createMarker(
+  data: MarkerDataset,
+  layers: MapLayer[],
+  popups: boolean,
+  project: Projection,
+): MapMarker {
+  const {
+    link,
+    slug,
+    icon,
+    colour,
+    minZoom,
+    coordinates,
+    name,
+    aliases,
+    layer,
+    category,
+    from,
+    to,
+  } = data;
+  const marker = L.marker(project(coordinates), {
+    icon: buildMarkerIcon(popups ? undefined : link, icon, colour),
+  }).bindTooltip(name);
+  if (popups) {
+    // The note is only fetched once its popup is first opened
+    let content: HTMLElement | undefined;
+    marker.bindPopup(() => (content ??= buildPopupContent(data, marker)), {
+      className: "leaflet-marker-popup-container",
+      maxWidth: 280,
+    });
+  }
+
+  return {
+    marker,
+    name,
+    slug,
+    aliases: aliases !== undefined ? (JSON.parse(aliases) as string[]) : [],
+    minZoom: parseFloat(minZoom),
+    category,
+    // Markers on a layer the map does not have are shown on all of them
+    layer: layers.find((mapLayer) => mapLayer.name === layer)?.layer,
+    from: from !== undefined ? parseFloat(from) : undefined,
+    to: to !== undefined ? parseFloat(to) : undefined,
+  };
+}
+
+function buildClusterIcon(count: number) {
+  return L.divIcon({
+    className: "leaflet-marker-cluster",
+    html: `<span>${count}</span>`,
+    iconSize: [36, 36],
+  });
+}
+
+// Greedily groups markers that are at most `radius` pixels apart at the current zoom level
+function clusterMarkers(markers: MapMarker[], map: LeafletMap, radius: number): MapMarker[][] {
+  const zoom = map.getZoom();
+  const points = markers.map(({ marker }) => map.project(marker.getLatLng(), zoom));
+  const clustered = new Set<number>();
+  const clusters: MapMarker[][] = [];
+
+  points.forEach((point, index) => {
+    if (clustered.has(index)) return;
+    const cluster: MapMarker[] = [];
+    points.forEach((other, otherIndex) => {
+      if (clustered.has(otherIndex) || point.distanceTo(other) > radius) return;
+      clustered.add(otherIndex);
+      cluster.push(markers[otherIndex]);
+    });
+    clusters.push(cluster);
+  });
+  return clusters;
+}
+
+/**
+ * Shows the markers that pass their `minZoom` and layer, and collapses the ones close to each other
+ * into a cluster when a cluster radius is set.
+ */
+class MarkerGroup {
+  readonly markers: MapMarker[];
+  // Marker whose popup is open, links to the view point at it
+  selected?: MapMarker;
+  // Year selected on the timeline, if the map has one
+  private _year?: number;
+  private readonly map: LeafletMap;
+  private readonly clusterRadius: number;
+  private readonly clusters: LayerGroup;
+
+  constructor(map: LeafletMap, markers: MapMarker[], clusterRadius: number) {
+    this.map = map;
+    this.markers = markers;
+    this.clusterRadius = clusterRadius;
+    this.clusters = L.layerGroup().addTo(map);
+    markers.forEach((mapMarker) => {
+      mapMarker.marker.on("popupopen", () => (this.selected = mapMarker));
+      mapMarker.marker.on("popupclose", () => {
+        if (this.selected === mapMarker) this.selected = undefined;
+      });
+    });
+
+    map.on("zoomend baselayerchange overlayadd overlayremove categorychange", this.update);
+    this.update();
+  }
+
+  private readonly update = () => {
+    const hiddenCategories = getHiddenCategories();
+    const visible = this.markers.filter((mapMarker) =>
+      isMarkerVisible(mapMarker, this.map, hiddenCategories, this._year),
+    );
+    this.markers
+      .filter((mapMarker) => !visible.includes(mapMarker))
+      .forEach(({ marker }) => marker.remove());
+    this.clusters.clearLayers();
+
+    // Markers cannot be spread out any further at the maximum zoom level, so they are never clustered
+    const clustering =
+      this.clusterRadius > 0 && this.map.getZoom() < this.map.getMaxZoom() - zoomEpsilon;
+    const clusters = clustering
+      ? clusterMarkers(visible, this.map, this.clusterRadius)
+      : visible.map((mapMarker) => [mapMarker]);
+
+    clusters.forEach((cluster) => {
+      if (cluster.length === 1) {
+        cluster.forEach(({ marker }) => showMarker(marker, this.map));
+        return;
+      }
+      cluster.forEach(({ marker }) => marker.remove());
+      this.clusters.addLayer(this.buildClusterMarker(cluster));
+    });
+  };
+
+  get year(): number | undefined {
+    return this._year;
+  }
+
+  set year(year: number | undefined) {
+    this._year = year;
+    this.update();
+  }
+
+  // Flies to a marker close enough for it to be shown on its own and makes it stand out
+  reveal(mapMarker: MapMarker) {
+    const { marker, minZoom } = mapMarker;
+    const zoom =
+      this.clusterRadius > 0 ? this.map.getMaxZoom() : Math.max(this.map.getZoom(), minZoom);
+    this.map.once("moveend", () => {
+      if (marker.getPopup()) {
+        marker.openPopup();
+      } else {
+        marker.openTooltip();
+      }
+      const element = marker.getElement();
+      element?.classList.add("highlighted");
+      setTimeout(() => element?.classList.remove("highlighted"), 2000);
+    });
+    this.map.flyTo(marker.getLatLng(), zoom);
+  }
+
+  private buildClusterMarker(cluster: MapMarker[]): Marker {
+    const bounds = L.latLngBounds(cluster.map(({ marker }) => marker.getLatLng()));
+    return L.marker(bounds.getCenter(), {
+      icon: buildClusterIcon(cluster.length),
+      title: `${cluster.length} markers`,
+    }).on("click", () => this.map.fitBounds(bounds, { padding: [40, 40] }));
+  }
+}
+
+/**
+ * REGIONS
+ */
+
+function getRegionData(mapElement: HTMLElement): RegionDataset[] {
+  const regions: RegionDataset[] = [];
+  mapElement.querySelectorAll<HTMLElement>("div.leaflet-region").forEach((element) => {
+    if (isRegionDataset(element.dataset)) regions.push(element.dataset);
+    element.remove();
+  });
+  return regions;
+}
+
+function addRegion(
+  { name, link, vertices, colour, fillColour, opacity }: RegionDataset,
+  map: LeafletMap,
+  project: Projection,
+) {
+  const corners = (JSON.parse(vertices) as string[]).map(project);
+  L.polygon(corners, {
+    color: colour,
+    weight: 2,
+    fillColor: fillColour,
+    fillOpacity: parseFloat(opacity),
+  })
+    .bindTooltip(name, { sticky: true })
+    .on("click", () => openNote(link, map))
+    .addTo(map);
+}
+
+// A region that slows travel down, its corners in the coordinates of the map
+interface Terrain {
+  corners: LatLng[];
+  multiplier: number;
+}
+
+function getTerrain({ vertices, terrain }: RegionDataset, project: Projection): Terrain[] {
+  if (terrain === undefined) return [];
+  const corners = (JSON.parse(vertices) as string[]).map((vertex) => L.latLng(project(vertex)));
+  return [{ corners, multiplier: parseFloat(terrain) }];
+}
+
+// Ray casting, counts how often a line from the point crosses the outline of the polygon
+function isInside(point: LatLng, corners: LatLng[]): boolean {
+  let inside = false;
+  for (let i = 0, j = corners.length - 1; i < corners.length; j = i++) {
+    const [a, b] = [corners[i], corners[j]];
+    const crosses =
+      a.lat > point.lat !== b.lat > point.lat &&
+      point.lng < ((b.lng - a.lng) * (point.lat - a.lat)) / (b.lat - a.lat) + a.lng;
+    if (crosses) inside = !inside;
+  }
+  return inside;
+}
+
+// A segment may run through several regions, so it is sampled along its length
+function terrainMultiplier(from: LatLng, to: LatLng, terrains: Terrain[]): number {
+  if (terrains.length === 0) return 1;
+
+  const samples = 16;
+  let total = 0;
+  for (let sample = 0; sample < samples; sample++) {
+    const fraction = (sample + 0.5) / samples;
+    const point = L.latLng(
+      from.lat + (to.lat - from.lat) * fraction,
+      from.lng + (to.lng - from.lng) * fraction,
+    );
+    const multipliers = terrains
+      .filter(({ corners }) => isInside(point, corners))
+      .map(({ multiplier }) => multiplier);
+    total += Math.max(1, ...multipliers);
+  }
+  return total / samples;
+}
+
+/**
+ * PATHS
+ */
+
+function getPathData(mapElement: HTMLElement): PathDataset[] {
+  const paths: PathDataset[] = [];
+  mapElement.querySelectorAll<HTMLElement>("div.leaflet-path").forEach((element) => {
+    if (isPathDataset(element.dataset)) paths.push(element.dataset);
+    element.remove();
+  });
+  return paths;
+}
+
+function addPath(
+  { name, link, points, colour, dash, width }: PathDataset,
+  map: LeafletMap,
+  { scale, unit }: MapDataset,
+  project: Projection,
+) {
+  const latlngs = (JSON.parse(points) as string[]).map((point) => L.latLng(project(point)));
+  // Measured the same way as with the measure control
+  const length = latlngs
+    .slice(1)
+    .reduce((total, latlng, index) => total + distance(latlngs[index], latlng), 0);
+
+  L.polyline(latlngs, { color: colour, dashArray: dash, weight: parseFloat(width) })
+    .bindTooltip(`${name} (${formatDistance(length * parseFloat(scale), unit)})`, {
+      sticky: true,
+    })
+    .on("click", () => openNote(link, map))
+    .addTo(map);
+}
+
+/**
+ * LINKS
+ */
+
+// The hash is left to the SPA router, which scrolls to the heading it names
+interface MapLink {
+  zoom?: number;
+  center?: LatLngTuple;
+  marker?: string;
+}
+
+// Maps are told apart by their position on the page, the first one is assumed when none is given
+function readMapLink(mapIndex: number): MapLink | undefined {
+  const params = new URLSearchParams(window.location.search);
+  if (!params.has("zoom") && !params.has("center") && !params.has("marker")) return;
+  if (parseInt(params.get("map") ?? "0") !== mapIndex) return;
+
+  const zoom = parseFloat(params.get("zoom") ?? "");
+  const center = params.get("center")?.split(",").map(parseFloat);
+  return {
+    zoom: isNaN(zoom) ? undefined : zoom,
+    center: center?.length === 2 && !center.some(isNaN) ? [center[0], center[1]] : undefined,
+    marker: params.get("marker") ?? undefined,
+  };
+}
+
+function restoreMapLink({ zoom, center, marker }: MapLink, map: LeafletMap, group: MarkerGroup) {
+  if (center) {
+    map.setView(center, zoom ?? map.getZoom());
+  } else if (zoom !== undefined) {
+    map.setZoom(zoom);
+  }
+  if (marker === undefined) return;
+
+  // A note with several markers links to the one closest to the centre of the view
+  const target = group.markers
+    .filter(({ slug }) => slug === marker)
+    .sort(
+      (a, b) =>
+        distance(a.marker.getLatLng(), map.getCenter()) -
+        distance(b.marker.getLatLng(), map.getCenter()),
+    )
+    .at(0);
+  if (target) group.reveal(target);
+}
+
+function buildMapLink(map: LeafletMap, mapIndex: number, selected?: MapMarker): URL {
+  const url = new URL(window.location.toString());
+  const center = selected?.marker.getLatLng() ?? map.getCenter();
+  const params = new URLSearchParams({
+    map: mapIndex.toString(),
+    zoom: map.getZoom().toFixed(2),
+    center: `${Math.round(center.lat)},${Math.round(center.lng)}`,
+  });
+  if (selected) params.set("marker", selected.slug);
+  url.search = params.toString();
+  url.hash = "";
+  return url;
+}
+
+// Gives the same feedback as the copy button of code blocks
+function copyToClipboard(text: string, button: HTMLElement, icon: IconNode) {
+  navigator.clipboard.writeText(text).then(
+    () => {
+      button.replaceChildren(lucide.createElement(lucide.Check));
+      setTimeout(() => button.replaceChildren(lucide.createElement(icon)), 2000);
+    },
+    (error) => console.error(error),
+  );
+}
+
+/**
+ * CONTROLS
+ */
+
+interface SubControlArgs {
+  index: number;
+  map: LeafletMap;
+  // Position of the map on the page
+  mapIndex: number;
+  options: MapDataset;
+  markers: MarkerDataset[];
+  group: MarkerGroup;
+  terrains: Terrain[];
+  unproject: Unprojection;
+  onSelectCallback: (index: number) => void;
+}
+
+abstract class SubControl {
+  protected readonly index: number;
+  protected readonly map: LeafletMap;
+  protected readonly mapIndex: number;
+  protected readonly options: MapDataset;
+  protected readonly markers: MarkerDataset[];
+  protected readonly group: MarkerGroup;
+  protected readonly terrains: Terrain[];
+  protected readonly unproject: Unprojection;
+  protected button?: HTMLElement;
+  private readonly onSelectCallback: (index: number) => void;
+  private _isSelected = false;
+
+  constructor({
+    index,
+    map,
+    mapIndex,
+    options,
+    markers,
+    group,
+    terrains,
+    unproject,
+    onSelectCallback,
+  }: SubControlArgs) {
+    this.index = index;
+    this.map = map;
+    this.mapIndex = mapIndex;
+    this.options = options;
+    this.markers = markers;
+    this.group = group;
+    this.terrains = terrains;
+    this.unproject = unproject;
+    this.onSelectCallback = onSelectCallback;
+  }
+
+  get isSelected(): boolean {
+    return this._isSelected;
+  }
+
+  setSelected(selected: boolean) {
+    if (this._isSelected === selected) return;
+    this._isSelected = selected;
+
+    if (selected) {
+      this.button?.classList.add("selected");
+      this.onSelected();
+    } else {
+      this.button?.classList.remove("selected");
+      this.onDeselected();
+    }
+  }
+
+  onAdd(container: HTMLElement) {
+    this.button = L.DomUtil.create("div", "leaflet-control-button", container);
+    this.button.addEventListener("click", () => this.onClick());
+    L.DomEvent.disableClickPropagation(container);
+    this.onAdded(container);
+  }
+
+  onRemove() {
+    this.onRemoved();
+    this.button?.replaceChildren();
+  }
+
+  // Selects the control by default, controls that are not a mode of the map override this
+  protected onClick() {
+    this.onSelectCallback(this.index);
+  }
+
+  protected abstract onAdded(container: HTMLElement): void;
+  protected onRemoved() {}
+  protected onSelected() {}
+  protected onDeselected() {}
+  abstract mapClicked(event: LeafletMouseEvent): void;
+}
+
+type SubControlConstructor = new (args: SubControlArgs) => SubControl;
+
+class PanControl extends SubControl {
+  protected onAdded() {
+    if (!this.button) return;
+    this.button.appendChild(lucide.createElement(lucide.MousePointer2));
+    this.button.ariaLabel = "Pan";
+  }
+
+  mapClicked() {}
+}
+
+enum MeasureState {
+  Ready,
+  Measuring,
+  Finishing,
+  Done,
+}
+
+class MeasureControl extends SubControl {
+  private state = MeasureState.Ready;
+  private pathItems: LatLng[] = [];
+  private distance = 0;
+  // The distance with every segment multiplied by the terrain it crosses
+  private effort = 0;
+  private readonly travelModes: TravelMode[] = JSON.parse(this.options.travel ?? "[]");
+  private lineLayer?: LayerGroup;
+  private pointLayer?: LayerGroup;
+  private pathLine?: Polyline;
+  private previewLine?: Polyline;
+  private previewTooltip?: Tooltip;
+  private lastElement?: CircleMarker;
+
+  private readonly onMouseMove = (event: LeafletMouseEvent) => this.renderPreview(event.latlng);
+
+  protected onAdded() {
+    if (this.button) {
+      this.button.appendChild(lucide.createElement(lucide.Ruler));
+      this.button.ariaLabel = "Measure";
+    }
+
+    this.lineLayer = L.layerGroup().addTo(this.map);
+    this.pointLayer = L.layerGroup().addTo(this.map);
+    this.pathLine = L.polyline([]).addTo(this.lineLayer);
+    this.previewLine = L.polyline([], { dashArray: "8" }).addTo(this.lineLayer);
+    this.previewTooltip = this.getTooltip(true).setLatLng([0, 0]);
+  }
+
+  protected onSelected() {
+    L.DomUtil.addClass(this.map.getContainer(), "leaflet-crosshair");
+    this.map.on("mousemove", this.onMouseMove);
+  }
+
+  protected onDeselected() {
+    L.DomUtil.removeClass(this.map.getContainer(), "leaflet-crosshair");
+    this.map.off("mousemove", this.onMouseMove);
+    this.resetPath();
+    this.state = MeasureState.Ready;
+  }
+
+  mapClicked(event: LeafletMouseEvent) {
+    if (!this.lineLayer) throw new Error("Line layer not initialised");
+
+    switch (this.state) {
+      case MeasureState.Ready:
+      case MeasureState.Measuring:
+        this.state = MeasureState.Measuring;
+        this.pathItems.push(event.latlng);
+        this.renderPath();
+        this.previewTooltip?.addTo(this.lineLayer);
+        this.renderPreview(event.latlng);
+        break;
+      case MeasureState.Finishing:
+        this.state = MeasureState.Done;
+        this.lastElement?.bindTooltip(this.getTooltip(true)).bringToFront();
+        this.previewTooltip?.remove();
+        break;
+      case MeasureState.Done:
+        this.resetPath();
+        this.state = MeasureState.Ready;
+        break;
+    }
+  }
+
+  private renderPath() {
+    this.cleanLastElement();
+    this.updatePolyline(this.pathLine, this.pathItems);
+
+    const last = this.pathItems.at(-1);
+    if (last === undefined) return;
+    this.lastElement = this.getCircleMarker(last);
+
+    const previous = this.pathItems.at(-2);
+    if (previous !== undefined) {
+      const length = distance(last, previous) * parseFloat(this.options.scale);
+      this.distance += length;
+      this.effort += length * terrainMultiplier(previous, last, this.terrains);
+    }
+  }
+
+  private renderPreview(latlng: LatLng) {
+    if (this.state !== MeasureState.Measuring) return;
+
+    const last = this.pathItems.at(-1);
+    if (last === undefined) return;
+
+    this.updatePolyline(this.previewLine, [last, latlng]);
+    const length = distance(last, latlng) * parseFloat(this.options.scale);
+    this.previewTooltip
+      ?.setLatLng(latlng)
+      .setContent(
+        this.getContent(
+          this.distance + length,
+          this.effort + length * terrainMultiplier(last, latlng, this.terrains),
+        ),
+      );
+  }
+
+  private resetPath() {
+    this.pathItems = [];
+    this.distance = 0;
+    this.effort = 0;
+    this.cleanLastElement();
+    this.pointLayer?.clearLayers();
+    this.updatePolyline(this.pathLine, []);
+    this.updatePolyline(this.previewLine, []);
+    this.previewTooltip?.remove();
+  }
+
+  private updatePolyline(polyline: Polyline | undefined, latlngs: LatLng[]) {
+    polyline?.setLatLngs(latlngs).redraw();
+    // The measured path should not catch clicks meant for the map
+    polyline?.getElement()?.classList.remove("leaflet-interactive");
+  }
+
+  private cleanLastElement() {
+    this.lastElement?.off("click");
+    this.lastElement?.getElement()?.classList.remove("leaflet-interactive");
+  }
+
+  private getTooltip(permanent: boolean = false): Tooltip {
+    return L.tooltip({ permanent, offset: [15, 0] }).setContent(
+      this.getContent(this.distance, this.effort),
+    );
+  }
+
+  private getCircleMarker(latlng: LatLng): CircleMarker {
+    if (!this.pointLayer) throw new Error("Point layer not initialised");
+    return L.circleMarker(latlng, { radius: 4, fill: true, fillColor: "#3388ff", fillOpacity: 1 })
+      .addTo(this.pointLayer)
+      .on("click", () => (this.state = MeasureState.Finishing));
+  }
+
+  private getContent(distance: number, effort: number): string {
+    return [
+      formatDistance(distance, this.options.unit),
+      ...this.travelModes.map(({ name, speed }) => `${name}: ${formatTravelTime(effort / speed)}`),
+    ].join("<br>");
+  }
+}
+
+class LegendControl extends SubControl {
+  private list?: HTMLElement;
+
+  protected onAdded(container: HTMLElement) {
+    if (this.button) {
+      this.button.appendChild(lucide.createElement(lucide.ListFilter));
+      this.button.ariaLabel = "Legend";
+    }
+
+    // A list rather than divs, which `leaflet-bar` would style as buttons
+    this.list = L.DomUtil.create("ul", "leaflet-control-list leaflet-legend", container);
+    L.DomEvent.disableScrollPropagation(this.list);
+    const hiddenCategories = getHiddenCategories();
+    this.getCategories().forEach(({ category, icon, colour }) => {
+      const item = L.DomUtil.create("li", "", this.list);
+      const label = L.DomUtil.create("label", "", item);
+      const input = L.DomUtil.create("input", "", label);
+      input.type = "checkbox";
+      input.checked = !hiddenCategories.has(category);
+      input.addEventListener("change", () => this.setCategoryVisible(category, input.checked));
+
+      const swatch = L.DomUtil.create("span", "leaflet-legend-swatch", label);
+      swatch.style.backgroundColor = colour;
+      L.DomUtil.create("i", "", swatch).dataset.lucide = icon;
+      L.DomUtil.create("span", "", label).textContent = category;
+    });
+    lucide.createIcons({ attrs: { class: "leaflet-legend-icon" }, root: this.list });
+  }
+
+  protected onRemoved() {
+    this.list?.remove();
+  }
+
+  protected onClick() {
+    this.list?.classList.toggle("expanded");
+    this.button?.classList.toggle("selected");
+  }
+
+  mapClicked() {}
+
+  // Each category is shown with the icon and colour of its first marker
+  private getCategories(): Pick<MarkerDataset, "category" | "icon" | "colour">[] {
+    const categories = new Map<string, Pick<MarkerDataset, "category" | "icon" | "colour">>();
+    this.markers.forEach(({ category, icon, colour }) => {
+      if (!categories.has(category)) categories.set(category, { category, icon, colour });
+    });
+    return [...categories.values()].sort((a, b) => a.category.localeCompare(b.category));
+  }
+
+  private setCategoryVisible(category: string, visible: boolean) {
+    const hiddenCategories = getHiddenCategories();
+    if (visible) {
+      hiddenCategories.delete(category);
+    } else {
+      hiddenCategories.add(category);
+    }
+    setHiddenCategories(hiddenCategories);
+    this.map.fire("categorychange");
+  }
+}
+
+// YAML for the frontmatter of a note, colours are quoted as `#` starts a comment
+function buildMarkerSnippet(
+  { mapName, markerIcon, markerColour }: MapDataset,
+  coordinates: string,
+): string {
+  const properties = [
+    // Quoted, as map names are free text that YAML could read as something else
+    ...(mapName ? [`mapName: ${JSON.stringify(mapName)}`] : []),
+    `coordinates: ${coordinates}`,
+    ...(markerIcon ? [`icon: ${markerIcon}`] : []),
+    ...(markerColour ? [`colour: "${markerColour}"`] : []),
+  ];
+  const lines = properties.map((line, index) => (index === 0 ? `  - ${line}` : `    ${line}`));
+  return ["marker:", ...lines].join("\n");
+}
+
+class PickerControl extends SubControl {
+  private tooltip?: Tooltip;
+
+  protected onAdded() {
+    if (!this.button) return;
+    this.button.appendChild(lucide.createElement(lucide.MapPinPlus));
+    this.button.ariaLabel = "Copy a marker for a point";
+  }
+
+  protected onSelected() {
+    L.DomUtil.addClass(this.map.getContainer(), "leaflet-crosshair");
+  }
+
+  protected onDeselected() {
+    L.DomUtil.removeClass(this.map.getContainer(), "leaflet-crosshair");
+    this.tooltip?.remove();
+  }
+
+  mapClicked(event: LeafletMouseEvent) {
+    if (!this.button) return;
+    const coordinates = this.unproject(event.latlng);
+    this.tooltip = (this.tooltip ?? L.tooltip({ permanent: true, offset: [15, 0] }))
+      .setLatLng(event.latlng)
+      .setContent(coordinates)
+      .addTo(this.map);
+    copyToClipboard(buildMarkerSnippet(this.options, coordinates), this.button, lucide.MapPinPlus);
+  }
+}
+
+class LinkControl extends SubControl {
+  protected onAdded() {
+    if (!this.button) return;
+    this.button.appendChild(lucide.createElement(lucide.Link));
+    this.button.ariaLabel = "Copy link to this view";
+  }
+
+  // The address bar follows the copied link, without adding an entry to the history
+  protected onClick() {
+    if (!this.button) return;
+    const url = buildMapLink(this.map, this.mapIndex, this.group.selected);
+    history.replaceState(history.state, "", url);
+    copyToClipboard(url.toString(), this.button, lucide.Link);
+  }
+
+  mapClicked() {}
+}
+
+interface SearchItem {
+  name: string[];
+  aliases: string[][];
+}
+
+// Every word of the term has to start a word of the text, split into words as the site search does
+function matchesTerm(terms: string[], words: string[]): boolean {
+  return terms.every((term) => words.some((word) => word.startsWith(term)));
+}
+
+// A map has too few markers to need a search index, so they are matched one by one
+class SearchControl extends L.Control {
+  private readonly group: MarkerGroup;
+  private readonly items: SearchItem[];
+
+  constructor(group: MarkerGroup) {
+    super({ position: "topright" });
+    this.group = group;
+    this.items = group.markers.map(({ name, aliases }) => ({
+      name: encoder(name),
+      aliases: aliases.map(encoder),
+    }));
+  }
+
+  onAdd(map: LeafletMap): HTMLElement {
+    const container = L.DomUtil.create("div", "leaflet-bar leaflet-control leaflet-search-control");
+    const input = L.DomUtil.create("input", "leaflet-search-input", container);
+    input.type = "search";
+    input.placeholder = "Search markers";
+    input.ariaLabel = "Search markers";
+    const results = L.DomUtil.create("ul", "leaflet-search-results", container);
+
+    const clear = () => {
+      input.value = "";
+      results.replaceChildren();
+    };
+    input.addEventListener("input", () => {
+      const markers = this.search(input.value, map);
+      results.replaceChildren(
+        ...markers.map((mapMarker) =>
+          this.createResultItem(mapMarker, () => {
+            clear();
+            this.group.reveal(mapMarker);
+          }),
+        ),
+      );
+    });
+    input.addEventListener("keydown", (event) => {
+      if (event.key === "Enter") results.querySelector("button")?.click();
+      if (event.key.startsWith("Esc")) clear();
+    });
+
+    L.DomEvent.disableClickPropagation(container);
+    L.DomEvent.disableScrollPropagation(container);
+    return container;
+  }
+
+  private search(term: string, map: LeafletMap): MapMarker[] {
+    const terms = encoder(term);
+    if (terms.length === 0) return [];
+
+    // order names ahead of aliases, and leave out markers the reader has hidden
+    const hiddenCategories = getHiddenCategories();
+    const matching = (matches: (item: SearchItem) => boolean) =>
+      this.group.markers.filter(
+        (mapMarker, id) =>
+          matches(this.items[id]) &&
+          isMarkerEnabled(mapMarker, map, hiddenCategories, this.group.year),
+      );
+    const byName = matching(({ name }) => matchesTerm(terms, name));
+    const byAlias = matching(({ aliases }) => aliases.some((alias) => matchesTerm(terms, alias)));
+    return [...new Set([...byName, ...byAlias])].slice(0, 8);
+  }
+
+  private createResultItem({ name, aliases }: MapMarker, onSelect: () => void): HTMLLIElement {
+    const item = L.DomUtil.create("li");
+    const button = L.DomUtil.create("button", "", item);
+    button.type = "button";
+    button.textContent = name;
+    if (aliases.length > 0) {
+      L.DomUtil.create("span", "leaflet-search-aliases", button).textContent = aliases.join(", ");
+    }
+    button.addEventListener("click", onSelect);
+    return item;
+  }
+}
+
+class ControlContainer extends L.Control {
+  private controls: SubControl[] = [];
+  private activeIndex = 0;
+  private readonly mapIndex: number;
+  private readonly settings: MapDataset;
+  private readonly markers: MarkerDataset[];
+  private readonly group: MarkerGroup;
+  private readonly terrains: Terrain[];
+  private readonly unproject: Unprojection;
+
+  constructor(
+    mapIndex: number,
+    settings: MapDataset,
+    markers: MarkerDataset[],
+    group: MarkerGroup,
+    terrains: Terrain[],
+    unproject: Unprojection,
+  ) {
+    super({ position: "topleft" });
+    this.mapIndex = mapIndex;
+    this.settings = settings;
+    this.markers = markers;
+    this.group = group;
+    this.terrains = terrains;
+    this.unproject = unproject;
+  }
+
+  onAdd(map: LeafletMap): HTMLElement {
+    this.registerSubControl(PanControl, map);
+    this.registerSubControl(MeasureControl, map);
+    this.registerSubControl(PickerControl, map);
+    if (this.markers.length > 0) this.registerSubControl(LegendControl, map);
+    this.registerSubControl(LinkControl, map);
+
+    const container = L.DomUtil.create("div", "leaflet-bar leaflet-control");
+    this.controls.forEach((control) => control.onAdd(container));
+    this.controls[this.activeIndex]?.setSelected(true);
+    map.on("click", this.onMapClicked);
+    return container;
+  }
+
+  onRemove(map: LeafletMap) {
+    map.off("click", this.onMapClicked);
+    this.controls.forEach((control) => control.onRemove());
+    this.controls = [];
+  }
+
+  private readonly onMapClicked = (event: LeafletMouseEvent) => {
+    this.controls
+      .filter((control) => control.isSelected)
+      .forEach((control) => control.mapClicked(event));
+  };
+
+  private registerSubControl(Control: SubControlConstructor, map: LeafletMap) {
+    const onSelectCallback = (index: number) => {
+      this.controls.at(this.activeIndex)?.setSelected(false);
+      this.controls.at(index)?.setSelected(true);
+      this.activeIndex = index;
+    };
+
+    this.controls.push(
+      new Control({
+        index: this.controls.length,
+        map,
+        mapIndex: this.mapIndex,
+        options: this.settings,
+        markers: this.markers,
+        group: this.group,
+        terrains: this.terrains,
+        unproject: this.unproject,
+        onSelectCallback,
+      }),
+    );
+  }
+}
+
+// Shows the markers that exist in the selected in-world year. The slider goes one step past the
+// end of the range, where no year is selected and every marker is shown, and starts there
+class TimelineControl extends L.Control {
+  private readonly group: MarkerGroup;
+  private readonly from: number;
+  private readonly to: number;
+
+  constructor(group: MarkerGroup, from: number, to: number) {
+    super({ position: "bottomleft" });
+    this.group = group;
+    this.from = from;
+    this.to = to;
+  }
+
+  onAdd(): HTMLElement {
+    const container = L.DomUtil.create(
+      "div",
+      "leaflet-bar leaflet-control leaflet-timeline-control",
+    );
+    const label = L.DomUtil.create("span", "leaflet-timeline-year", container);
+    const slider = L.DomUtil.create("input", "leaflet-timeline-slider", container);
+    slider.type = "range";
+    slider.min = this.from.toString();
+    slider.max = (this.to + 1).toString();
+    slider.step = "1";
+    slider.value = slider.max;
+    slider.ariaLabel = "Year";
+
+    const selectYear = () => {
+      const year = parseFloat(slider.value);
+      const allYears = year > this.to;
+      label.textContent = allYears ? "All years" : slider.value;
+      this.group.year = allYears ? undefined : year;
+    };
+    slider.addEventListener("input", selectYear);
+    selectYear();
+
+    // Dragging the slider should not pan the map
+    L.DomEvent.disableClickPropagation(container);
+    L.DomEvent.disableScrollPropagation(container);
+    return container;
+  }
+}
+
+class LayerControl extends L.Control {
+  private readonly layers: MapLayer[];
+
+  constructor(layers: MapLayer[]) {
+    super({ position: "topright" });
+    this.layers = layers;
+  }
+
+  onAdd(map: LeafletMap): HTMLElement {
+    const container = L.DomUtil.create("div", "leaflet-bar leaflet-control leaflet-layer-control");
+    const button = L.DomUtil.create("div", "leaflet-control-button", container);
+    button.appendChild(lucide.createElement(lucide.Layers));
+    button.ariaLabel = "Layers";
+    button.addEventListener("click", () => container.classList.toggle("expanded"));
+
+    const list = L.DomUtil.create("ul", "leaflet-control-list leaflet-layer-list", container);
+    this.layers.forEach((mapLayer) => list.appendChild(this.createLayerItem(mapLayer, map)));
+
+    L.DomEvent.disableClickPropagation(container);
+    L.DomEvent.disableScrollPropagation(container);
+    return container;
+  }
+
+  private createLayerItem(mapLayer: MapLayer, map: LeafletMap): HTMLLIElement {
+    const item = L.DomUtil.create("li");
+    const label = L.DomUtil.create("label", "", item);
+    const input = L.DomUtil.create("input", "", label);
+    input.type = mapLayer.overlay ? "checkbox" : "radio";
+    // Base layers of one map form a single radio group
+    input.name = `leaflet-base-layer-${L.Util.stamp(this)}`;
+    input.checked = map.hasLayer(mapLayer.layer);
+    input.addEventListener("change", () => {
+      if (mapLayer.overlay) {
+        this.toggleOverlay(mapLayer, map, input.checked);
+      } else {
+        this.selectBaseLayer(mapLayer, map);
+      }
+    });
+    L.DomUtil.create("span", "", label).textContent = mapLayer.name;
+    return item;
+  }
+
+  private selectBaseLayer(mapLayer: MapLayer, map: LeafletMap) {
+    this.layers
+      .filter((other) => !other.overlay && other !== mapLayer)
+      .forEach((other) => other.layer.remove());
+    mapLayer.layer.addTo(map);
+    map.fire("baselayerchange", { layer: mapLayer.layer, name: mapLayer.name });
+  }
+
+  private toggleOverlay(mapLayer: MapLayer, map: LeafletMap, visible: boolean) {
+    if (visible) {
+      mapLayer.layer.addTo(map);
+      map.fire("overlayadd", { layer: mapLayer.layer, name: mapLayer.name });
+    } else {
+      mapLayer.layer.remove();
+      map.fire("overlayremove", { layer: mapLayer.layer, name: mapLayer.name });
+    }
+  }
+}
+
+/**
+ * MAP
+ */
+
+interface MapLayer {
+  name: string;
+  overlay: boolean;
+  layer: Layer;
+}
+
+// Overlays are drawn above every base layer, but below measured paths and markers
+const overlayPane = "leaflet-map-overlay-pane";
+
+function getLayerData(mapElement: HTMLElement): LayerDataset[] {
+  const layers: LayerDataset[] = [];
+  mapElement.querySelectorAll<HTMLElement>("div.leaflet-map-layer").forEach((element) => {
+    if (isLayerDataset(element.dataset)) layers.push(element.dataset);
+    element.remove();
+  });
+  return layers;
+}
+
+class ImageTileLayer extends L.TileLayer {
+  private readonly template: string;
+
+  constructor(template: string, options: TileLayerOptions) {
+    super(template, options);
+    this.template = template;
+  }
+
+  getTileUrl(coords: Coords): string {
+    // Tile rows are counted upwards from the bottom of the image, Leaflet counts them downwards
+    return L.Util.template(this.template, { z: coords.z, x: coords.x, y: -coords.y - 1 });
+  }
+}
+
+async function getTilePyramid(tiles: string | undefined): Promise<TilePyramid | undefined> {
+  if (tiles === undefined) return;
+  const response = await fetch(`${tiles}/meta.json`).catch(() => undefined);
+  if (!response?.ok) return;
+  return (await response.json()) as TilePyramid;
+}
+
+function getImageSize(src: string): Promise<{ width: number; height: number }> {
+  return new Promise((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve({ width: image.naturalWidth, height: image.naturalHeight });
+    image.onerror = (error) => reject(error);
+    image.src = src;
+  });
+}
+
+function createLayer(
+  { name, src, tiles, overlay, opacity }: LayerDataset,
+  pyramid: TilePyramid | undefined,
+  bounds: LatLngBoundsExpression,
+  map: LeafletMap,
+): MapLayer {
+  const isOverlay = overlay === "true";
+  const options = { opacity: parseFloat(opacity), pane: isOverlay ? overlayPane : "tilePane" };
+  const layer = pyramid
+    ? new ImageTileLayer(`${tiles}/{z}/{x}/{y}.webp`, {
+        ...options,
+        bounds,
+        noWrap: true,
+        tileSize: pyramid.tileSize,
+        minNativeZoom: pyramid.minZoom,
+        maxNativeZoom: pyramid.maxZoom,
+        minZoom: map.getMinZoom(),
+        maxZoom: map.getMaxZoom(),
+      })
+    : L.imageOverlay(src, bounds, options);
+  return { name, overlay: isOverlay, layer };
+}
+
+interface CreatedMap {
+  map: LeafletMap;
+  layers: MapLayer[];
+  bounds: LatLngBoundsExpression;
+  // Places the coordinates of markers, regions and paths on the map
+  project: Projection;
+  unproject: Unprojection;
+}
+
+// Sized after the first base layer, which is the one shown, up to the height of the map
+async function createMap(
+  element: HTMLElement,
+  dataset: MapDataset,
+  layerData: LayerDataset[],
+  options: MapOptions = {},
+): Promise<CreatedMap | undefined> {
+  const pyramids = await Promise.all(layerData.map((layer) => getTilePyramid(layer.tiles)));
+  const baseIndex = layerData.findIndex((layer) => layer.overlay !== "true");
+  const base = layerData[baseIndex];
+  if (base === undefined) return;
+
+  // Only load the full image of the base layer when there are no tiles
+  const { width, height } = pyramids[baseIndex] ?? (await getImageSize(base.src));
+  element.style.aspectRatio = (width / height).toString();
+  element.style.maxHeight = `${dataset.height}px`;
+
+  const bounds: LatLngBoundsExpression = [
+    [0, 0],
+    [height, width],
+  ];
+  const map = L.map(element, {
+    crs: L.CRS.Simple,
+    maxBounds: bounds,
+    minZoom: parseFloat(dataset.minZoom),
+    maxZoom: parseFloat(dataset.maxZoom),
+    zoomSnap: 0.01,
+    zoomDelta: parseFloat(dataset.zoomDelta),
+    ...options,
+  });
+
+  map.createPane(overlayPane).style.zIndex = "300";
+  // Tiles of images with another size than the map would not line up, those are stretched instead
+  const layers = layerData.map((layer, index) => {
+    const pyramid = pyramids[index];
+    const fits = pyramid?.width === width && pyramid?.height === height;
+    return createLayer(layer, fits ? pyramid : undefined, bounds, map);
+  });
+  layers[baseIndex]?.layer.addTo(map);
+  return {
+    map,
+    layers,
+    bounds,
+    project: getProjection(dataset.coordinateSystem, height),
+    unproject: getUnprojection(dataset, height),
+  };
+}
+
+async function initialiseMap(
+  element: HTMLElement,
+  mapIndex: number,
+  layerData: LayerDataset[],
+  regions: RegionDataset[],
+  paths: PathDataset[],
+  markers: MarkerDataset[],
+): Promise<LeafletMap | undefined> {
+  const dataset = element.dataset;
+  if (!isMapDataset(dataset)) return;
+
+  const created = await createMap(element, dataset, layerData);
+  if (!created) return;
+  const { map, layers, bounds, project, unproject } = created;
+
+  map.fitBounds(bounds);
+  regions.forEach((region) => addRegion(region, map, project));
+  paths.forEach((path) => addPath(path, map, dataset, project));
+  const markerGroup = new MarkerGroup(
+    map,
+    markers.map((marker) => createMarker(marker, layers, dataset.popups === "true", project)),
+    parseFloat(dataset.clusterRadius),
+  );
+  const terrains = regions.flatMap((region) => getTerrain(region, project));
+  new ControlContainer(mapIndex, dataset, markers, markerGroup, terrains, unproject).addTo(map);
+  if (markers.length > 0) new SearchControl(markerGroup).addTo(map);
+  if (layers.length > 1) new LayerControl(layers).addTo(map);
+  const { timelineFrom, timelineTo } = dataset;
+  if (timelineFrom !== undefined && timelineTo !== undefined && markers.length > 0) {
+    new TimelineControl(markerGroup, parseFloat(timelineFrom), parseFloat(timelineTo)).addTo(map);
+  }
+  map.setZoom(parseFloat(dataset.defaultZoom));
+
+  const link = readMapLink(mapIndex);
+  if (link) restoreMapLink(link, map, markerGroup);
+
+  return map;
+}
+
+// Location maps only show the markers of their note, on the base layer and without controls
+async function initialiseLocationMap(
+  element: HTMLElement,
+  layerData: LayerDataset[],
+  markers: MarkerDataset[],
+): Promise<LeafletMap | undefined> {
+  const dataset = element.dataset;
+  if (!isLocationMapDataset(dataset) || markers.length === 0) return;
+
+  const interactive = dataset.interactive === "true";
+  const created = await createMap(element, dataset, layerData, {
+    zoomControl: interactive,
+    dragging: interactive,
+    touchZoom: interactive,
+    doubleClickZoom: interactive,
+    scrollWheelZoom: interactive,
+    boxZoom: interactive,
+    keyboard: interactive,
+  });
+  if (!created) return;
+  const { map, layers, project } = created;
+
+  const mapMarkers = markers.map((marker) => createMarker(marker, layers, false, project));
+  // Close enough for the surroundings to be recognisable, one pixel of the image per screen pixel
+  map.fitBounds(L.latLngBounds(mapMarkers.map(({ marker }) => marker.getLatLng())), {
+    maxZoom: Math.min(0, map.getMaxZoom()),
+    padding: [24, 24],
+  });
+  mapMarkers.forEach(({ marker }) => showMarker(marker, map));
+
+  return map;
+}
+
+function cleanupMap(map: LeafletMap | undefined) {
+  map?.clearAllEventListeners();
+  map?.remove();
+}
+
+document.addEventListener("nav", () => {
+  // Location maps are left out of the positions deep links refer to maps by
+  const maps = document.querySelectorAll<HTMLElement>("div.leaflet-map:not(.leaflet-location-map)");
+  maps.forEach(async (element, mapIndex) => {
+    const layers = getLayerData(element);
+    const regions = getRegionData(element);
+    const paths = getPathData(element);
+    const markers = getMarkerData(element);
+    const map = await initialiseMap(element, mapIndex, layers, regions, paths, markers);
+    window.addCleanup(() => cleanupMap(map));
+  });
+
+  document.querySelectorAll<HTMLElement>("div.leaflet-location-map").forEach(async (element) => {
+    const layers = getLayerData(element);
+    const markers = getMarkerData(element);
+    const map = await initialiseLocationMap(element, layers, markers);
+    window.addCleanup(() => cleanupMap(map));
+  });
+});
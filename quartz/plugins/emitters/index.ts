@@ -10,3 +10,5 @@ export { ComponentResources } from "./componentResources";
 export { NotFoundPage } from "./404";
 export { CNAME } from "./cname";
 export { CustomOgImages } from "./ogImage";
+export { LeafletAssets } from "./leafletAssets";
+export { LeafletTiles } from "./leafletTiles";
@@ -0,0 +1,69 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import { FilePath, FullSlug, joinSegments } from "../../util/path";
+import { QuartzEmitterPlugin } from "../types";
+import { write } from "./helpers";
+
+export interface LeafletAsset {
+  package: string;
+  version: string;
+  // Path of the browser bundle inside the package
+  file: string;
+}
+
+/**
+ * The scripts the LeafletMap plugin loads in the browser. The versions are pinned in `package.json`
+ * as well, so copies served from the CDN and the ones emitted here are identical.
+ */
+export const leafletAssets = {
+  leaflet: { package: "leaflet", version: "1.9.4", file: "dist/leaflet.js" },
+  lucide: { package: "lucide", version: "0.575.0", file: "dist/umd/lucide.min.js" },
+} as const satisfies Record<string, LeafletAsset>;
+
+export function leafletAssetSlug(asset: LeafletAsset): FullSlug {
+  return `static/leaflet/${asset.package}` as FullSlug;
+}
+
+export function leafletAssetCdnUrl(asset: LeafletAsset): string {
+  return `https://unpkg.com/${asset.package}@${asset.version}/${asset.file}`;
+}
+
+export function readLeafletAsset(asset: LeafletAsset): Buffer {
+  const packageDir = joinSegments("node_modules", asset.package);
+  const { version } = JSON.parse(
+    fs.readFileSync(joinSegments(packageDir, "package.json"), "utf-8"),
+  ) as { version: string };
+  if (version !== asset.version) {
+    throw new Error(
+      `LeafletMap expects ${asset.package}@${asset.version} but ${asset.package}@${version} is installed`,
+    );
+  }
+
+  return fs.readFileSync(joinSegments(packageDir, asset.file) as FilePath);
+}
+
+// Subresource integrity hash, see https://developer.mozilla.org/en-US/docs/Web/Security/Subresource_Integrity
+export function leafletAssetIntegrity(asset: LeafletAsset): string {
+  return `sha384-${createHash("sha384").update(readLeafletAsset(asset)).digest("base64")}`;
+}
+
+export const LeafletAssetsEmitterName = "LeafletAssets";
+
+/**
+ * Emits the Leaflet and Lucide bundles from `node_modules` so maps work without access to the CDN.
+ * The LeafletMap plugin references these copies instead of unpkg whenever this emitter is enabled.
+ */
+export const LeafletAssets: QuartzEmitterPlugin = () => ({
+  name: LeafletAssetsEmitterName,
+  async *emit(ctx) {
+    for (const asset of Object.values(leafletAssets)) {
+      yield write({
+        ctx,
+        slug: leafletAssetSlug(asset),
+        ext: ".js",
+        content: readLeafletAsset(asset),
+      });
+    }
+  },
+  async *partialEmit() {},
+});
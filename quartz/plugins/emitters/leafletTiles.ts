@@ -0,0 +1,172 @@
+import { createHash } from "crypto";
+import fs from "fs";
+import path from "path";
+import sharp from "sharp";
+import { QuartzEmitterPlugin } from "../types";
+import { FilePath, FullSlug, QUARTZ, joinSegments, slugifyFilePath } from "../../util/path";
+import { BuildCtx } from "../../util/ctx";
+import { glob } from "../../util/glob";
+import { ProcessedContent } from "../vfile";
+
+export interface Options {
+  /** Width and height of a tile in pixels */
+  tileSize: number;
+}
+
+const defaultOptions: Options = {
+  tileSize: 256,
+};
+
+/**
+ * Describes the tiles of a map image, written to `meta.json` next to them.
+ * Zoom levels follow `CRS.Simple`: at zoom 0 one map unit is one pixel of the original image.
+ */
+export interface TilePyramid {
+  width: number;
+  height: number;
+  tileSize: number;
+  minZoom: number;
+  maxZoom: number;
+}
+
+export const LeafletTilesEmitterName = "LeafletTiles";
+
+export function leafletTilesSlug(imageSlug: FullSlug): FullSlug {
+  return joinSegments("static/leaflet/tiles", imageSlug) as FullSlug;
+}
+
+/**
+ * Cuts an image into one set of tiles per zoom level, from 0 down to the level at which the whole
+ * image fits into a single tile. Rows are counted from the bottom of the image, as latitudes are.
+ */
+async function generateTiles(src: FilePath, dest: string, tileSize: number): Promise<void> {
+  const { width, height } = await sharp(src).metadata();
+  if (!width || !height) throw new Error(`Could not read the dimensions of ${src}`);
+
+  const minZoom = -Math.max(0, Math.ceil(Math.log2(Math.max(width, height) / tileSize)));
+  for (let zoom = 0; zoom >= minZoom; zoom--) {
+    const scale = 2 ** zoom;
+    const scaledWidth = Math.max(1, Math.round(width * scale));
+    const scaledHeight = Math.max(1, Math.round(height * scale));
+    const { data, info } = await sharp(src)
+      .ensureAlpha()
+      .resize(scaledWidth, scaledHeight)
+      .raw()
+      .toBuffer({ resolveWithObject: true });
+
+    for (let column = 0; column * tileSize < scaledWidth; column++) {
+      for (let row = 0; row * tileSize < scaledHeight; row++) {
+        const left = column * tileSize;
+        const bottom = scaledHeight - row * tileSize;
+        const top = Math.max(0, bottom - tileSize);
+        const tileWidth = Math.min(tileSize, scaledWidth - left);
+        const tileHeight = bottom - top;
+
+        const tilePath = path.join(dest, `${zoom}`, `${column}`, `${row}.webp`);
+        await fs.promises.mkdir(path.dirname(tilePath), { recursive: true });
+        await sharp(data, {
+          raw: { width: info.width, height: info.height, channels: info.channels },
+        })
+          .extract({ left, top, width: tileWidth, height: tileHeight })
+          // Partial tiles sit against the bottom left corner of the image
+          .extend({
+            top: tileSize - tileHeight,
+            right: tileSize - tileWidth,
+            background: { r: 0, g: 0, b: 0, alpha: 0 },
+          })
+          .webp()
+          .toFile(tilePath);
+      }
+    }
+  }
+
+  const pyramid: TilePyramid = { width, height, tileSize, minZoom, maxZoom: 0 };
+  await fs.promises.writeFile(path.join(dest, "meta.json"), JSON.stringify(pyramid));
+}
+
+// Tiles are cached by the content of the image, so unchanged images are only sliced once
+async function getCachedTiles(src: FilePath, tileSize: number): Promise<string> {
+  const hash = createHash("sha256")
+    .update(await fs.promises.readFile(src))
+    .update(`${tileSize}`)
+    .digest("hex");
+  const cacheDir = path.join(QUARTZ, ".quartz-cache", "leaflet-tiles", hash);
+
+  try {
+    await fs.promises.access(path.join(cacheDir, "meta.json"));
+    return cacheDir;
+  } catch {
+    // ignore errors and generate the tiles
+  }
+
+  // Generate into a temporary folder so an interrupted build does not leave a partial cache entry
+  const tempDir = `${cacheDir}.tmp`;
+  await fs.promises.rm(tempDir, { recursive: true, force: true });
+  await generateTiles(src, tempDir, tileSize);
+  await fs.promises.rename(tempDir, cacheDir);
+  return cacheDir;
+}
+
+async function* emitTiles(ctx: BuildCtx, imageSlug: FullSlug, src: FilePath, tileSize: number) {
+  const cacheDir = await getCachedTiles(src, tileSize);
+  const outputDir = joinSegments(ctx.argv.output, leafletTilesSlug(imageSlug));
+
+  for (const fp of await glob("**", cacheDir, [])) {
+    const dest = joinSegments(outputDir, fp) as FilePath;
+    await fs.promises.mkdir(path.dirname(dest), { recursive: true });
+    await fs.promises.copyFile(path.join(cacheDir, fp), dest);
+    yield dest;
+  }
+}
+
+async function getImageSources(ctx: BuildCtx): Promise<Map<FullSlug, FilePath>> {
+  const fps = await glob("**", ctx.argv.directory, [
+    "**/*.md",
+    ...ctx.cfg.configuration.ignorePatterns,
+  ]);
+  return new Map(
+    fps.map((fp) => [slugifyFilePath(fp), joinSegments(ctx.argv.directory, fp) as FilePath]),
+  );
+}
+
+function getMapImages(content: ProcessedContent[]): Set<FullSlug> {
+  return new Set(content.flatMap(([_tree, file]) => file.data.leafletMapImages ?? []));
+}
+
+/**
+ * Slices the images of LeafletMap maps into tiles, so browsers only load the parts they display.
+ * The LeafletMap plugin switches to a tile layer whenever this emitter is enabled.
+ */
+export const LeafletTiles: QuartzEmitterPlugin<Partial<Options>> = (userOpts) => {
+  const opts = { ...defaultOptions, ...userOpts };
+
+  return {
+    name: LeafletTilesEmitterName,
+    async *emit(ctx, content) {
+      const sources = await getImageSources(ctx);
+      for (const imageSlug of getMapImages(content)) {
+        const src = sources.get(imageSlug);
+        if (src) yield* emitTiles(ctx, imageSlug, src, opts.tileSize);
+      }
+    },
+    async *partialEmit(ctx, content, _resources, changeEvents) {
+      const mapImages = getMapImages(content);
+      const changedImages = new Set<FullSlug>();
+      for (const changeEvent of changeEvents) {
+        if (changeEvent.type === "delete") continue;
+        changeEvent.file?.data.leafletMapImages?.forEach((imageSlug) =>
+          changedImages.add(imageSlug),
+        );
+
+        const slug = slugifyFilePath(changeEvent.path);
+        if (mapImages.has(slug)) changedImages.add(slug);
+      }
+
+      const sources = await getImageSources(ctx);
+      for (const imageSlug of changedImages) {
+        const src = sources.get(imageSlug);
+        if (src) yield* emitTiles(ctx, imageSlug, src, opts.tileSize);
+      }
+    },
+  };
+};
@@ -1,64 +1,177 @@
-import { Root } from "mdast";
+import { Code, Root } from "mdast";
 import { QuartzTransformerPlugin } from "../types";
 import { visit } from "unist-util-visit";
 import { Node, Parent } from "unist";
 import { VFile } from "vfile";
 import { Element } from "hast";
-import { load } from "js-yaml";
+import { styleText } from "util";
+import { YAMLException, load } from "js-yaml";
+import { minimatch } from "minimatch";
 import { BuildCtx } from "../../util/ctx";
-import { FilePath, FullSlug, resolveRelative, transformLink } from "../../util/path";
+import { QuartzLogger } from "../../util/log";
+import {
+  FilePath,
+  FullSlug,
+  RelativeURL,
+  isAbsoluteURL,
+  joinSegments,
+  pathToRoot,
+  resolveRelative,
+  stripSlashes,
+  transformLink,
+} from "../../util/path";
+import { BasesFile, compileFilter } from "../../util/bases";
+import { ProcessedContent, QuartzPluginData, defaultProcessedContent } from "../vfile";
+import { JSResource, JSResourceToScriptElement, StaticResources } from "../../util/resources";
+import {
+  LeafletAsset,
+  LeafletAssetsEmitterName,
+  leafletAssetCdnUrl,
+  leafletAssetIntegrity,
+  leafletAssetSlug,
+  leafletAssets,
+} from "../emitters/leafletAssets";
+import { LeafletTilesEmitterName, leafletTilesSlug } from "../emitters/leafletTiles";
+import {
+  Coordinates,
+  Hex,
+  LayerObject,
+  MapObject,
+  MarkerObject,
+  PathObject,
+  RegionObject,
+  Schema,
+  SchemaValidator,
+  ValidationIssue,
+  Validator,
+  checkProperEntry,
+  checkSchema,
+  dateValidator,
+  expectations,
+  isNonEmptyObject,
+  isProperEntry,
+  mapSchema,
+  markerSchema,
+  normaliseCoordinateList,
+  normaliseCoordinates,
+  parseDate,
+  pathSchema,
+  regExp,
+  regionSchema,
+  stringValidator,
+} from "./leafletMapSchema";
+// @ts-ignore
+import leafletScript from "../../components/scripts/leaflet.inline";
+import leafletStyle from "../../components/styles/leaflet.inline.scss";
 
 /**
  * TYPES.TS
  */
 
-type Wiki = string[][]; // Wiki links take the shape of string[][]
-type Coordinates = `${number}, ${number}`;
-type Hex = `#${string}`;
-
-interface MarkerObject {
-  mapName?: string;
-  coordinates: Coordinates;
-  icon?: string;
-  colour?: Hex;
-  minZoom?: number;
+export interface Options {
+  /** Add subresource integrity hashes to the Leaflet and Lucide scripts */
+  integrity: boolean;
+  /** Fail the build when a map, marker, region or path is invalid, instead of only listing them */
+  strict: boolean;
+  /**
+   * Where markers, regions and paths without a `mapName` are shown: on every map, on none of them,
+   * or only on the map with the given name
+   */
+  markersWithoutMap: "everywhere" | "nowhere" | { map: string };
+  /** Hex colour, such as "#21409a", of markers that do not set one */
+  markerColour: Hex;
+  /** Lucide icon of markers that do not set one */
+  markerIcon: string;
+  /**
+   * Maximum height in pixels of maps that do not set one, below it maps follow the shape of their
+   * image. Also the zoom settings of those maps
+   */
+  height: number;
+  minZoom: number;
+  maxZoom: number;
+  zoomDelta: number;
+  /**
+   * Versions loaded from unpkg. The LeafletAssets emitter always serves the installed packages,
+   * and integrity hashes are computed from those, so they have to match when `integrity` is on
+   */
+  leafletVersion: string;
+  lucideVersion: string;
+  /** Language of the code blocks that define maps */
+  codeBlockLanguage: string;
+  /**
+   * Entries with a later `revealAfter` date are left out of the build. Defaults to the
+   * `LEAFLET_SESSION_DATE` environment variable, and then to the day of the build. Both dates are
+   * in the timezone of the build unless they name one, a date alone meaning its start
+   */
+  sessionDate?: string;
 }
 
-interface MapObject {
-  name?: string;
-  image: string | Wiki;
-  height?: number;
-  minZoom?: number;
-  maxZoom?: number;
-  defaultZoom?: number;
-  zoomDelta?: number;
-  scale?: number;
-  unit?: string;
+type ParseResult<T> = { ok: true; value: T } | { ok: false; issues: ValidationIssue[] };
+
+// An invalid entry, printed at the end of the build
+interface MapDiagnostic extends ValidationIssue {
+  file: FilePath;
+  entry: "marker" | "region" | "path" | "map view";
+  // Position of the entry in its list, or of the view in its base
+  index: number;
 }
 
-type ValidatorFunction<T> = (value: unknown) => value is T;
+// The data attributes of the rendered elements, as read back by `leaflet.inline.ts`
+type Dataset<T> = { [K in keyof T]-?: string };
+export type MarkerDataset = Dataset<
+  Omit<MarkerEntry, "mapName" | "layer" | "cover" | "aliases" | "revealAfter" | "from" | "to">
+> & {
+  layer?: string;
+  from?: string;
+  to?: string;
+  cover?: string;
+  // JSON array of the aliases
+  aliases?: string;
+  // Slug of the note, deep links refer to the marker by it
+  slug: string;
+};
+export type RegionDataset = Dataset<Omit<RegionEntry, "mapName" | "terrain" | "revealAfter">> & {
+  terrain?: string;
+};
+export type PathDataset = Dataset<Omit<PathEntry, "mapName" | "dash" | "revealAfter">> & {
+  dash?: string;
+};
+// The origin and axis scale are applied while building, only flipping the image needs its height
+export type MapDataset = Dataset<
+  Omit<
+    MapObject,
+    "name" | "image" | "layers" | "filters" | "origin" | "axisScale" | "travel" | "timeline"
+  >
+> & {
+  // JSON array of the travel modes
+  travel?: string;
+  timelineFrom?: string;
+  timelineTo?: string;
+  // Full maps also tell the coordinate picker how to write a marker for them
+  mapName?: string;
+  origin?: string;
+  axisScale?: string;
+  markerIcon?: string;
+  markerColour?: string;
+};
+export type LocationMapDataset = MapDataset & {
+  // Whether readers can pan and zoom the map
+  interactive: string;
+};
+export type LayerDataset = Dataset<Omit<LayerObject, "image">> & {
+  src: string;
+  // Folder holding the tile pyramid of the image, see `LeafletTiles`
+  tiles?: string;
+};
 
 /**
  * CONSTANTS.TS
  */
 
-// Data stored across several invocations of this plugin
-const LEAFLET_MAP_PLUGIN_DATA: {
-  markerMap: { [key: string]: MarkerEntry[] };
-} = {
-  markerMap: {
-    notDefinedMap: [],
-  },
-};
-
 const C = {
-  regExp: {
-    hexColourValidation: /([0-9A-F]{3}){1,2}$/i,
-    coordinatesValidation: /[0-9]+\s*,\s*[0-9]+/,
-    iconValidation: /([a-z]+:)?[a-z]+([\-][a-z]+)*/,
-    url: /https?:/,
-    arrayString: /^\[.*[\]]$/,
-  },
+  name: "LeafletMapPlugin",
+  sessionDateVariable: "LEAFLET_SESSION_DATE",
+  regExp,
   map: {
     default: {
       minZoom: 0,
@@ -68,6 +181,9 @@ const C = {
       height: 600,
       scale: 1,
       unit: "",
+      coordinateSystem: "leaflet",
+      // Name of the layer made from the `image` of a map in the layer switcher
+      layerName: "Base map",
     },
   },
   marker: {
@@ -76,23 +192,75 @@ const C = {
       icon: "circle-small",
     },
   },
-  versions: {
-    leaflet: "1.9.4/dist/leaflet.js",
-    lucide: "0.575.0",
+  region: {
+    default: {
+      colour: "#21409a",
+      opacity: 0.2,
+    },
+  },
+  path: {
+    default: {
+      colour: "#21409a",
+      width: 3,
+    },
   },
 } as const;
 
+const defaultOptions: Options = {
+  integrity: false,
+  strict: false,
+  markersWithoutMap: "everywhere",
+  markerColour: C.marker.default.colour,
+  markerIcon: C.marker.default.icon,
+  height: C.map.default.height,
+  minZoom: C.map.default.minZoom,
+  maxZoom: C.map.default.maxZoom,
+  zoomDelta: C.map.default.zoomDelta,
+  leafletVersion: leafletAssets.leaflet.version,
+  lucideVersion: leafletAssets.lucide.version,
+  codeBlockLanguage: "base",
+};
+
 /**
  * UTIL.TS
  */
 
-function isNonEmptyObject(value: unknown): value is { [key: string]: unknown } {
-  if (!value || typeof value !== "object") return false;
-  return Object.keys(value).length > 0;
+function dataAttributes(dataset: { [key: string]: string | undefined }): {
+  [key: string]: string;
+} {
+  return Object.fromEntries(
+    Object.entries(dataset)
+      .filter((entry): entry is [string, string] => entry[1] !== undefined)
+      .map(([key, value]) => [
+        `data-${key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`)}`,
+        value,
+      ]),
+  );
+}
+
+function coordinatePair(coordinates: Coordinates): [number, number] {
+  const [lat, lng] = coordinates.split(",").map((value) => parseFloat(value));
+  return [lat, lng];
 }
 
-function isNotNull<T>(value: T | null): value is T {
-  return value !== null;
+// Keeps the valid entries and records why the others were left out. Entries that are not for
+// this plugin are null, so the index in a diagnostic still points at the entry as written
+function collectResults<T>(
+  file: VFile,
+  entry: MapDiagnostic["entry"],
+  results: (ParseResult<T> | null)[],
+): T[] {
+  const relativePath = file.data.relativePath ?? (file.path as FilePath);
+  const diagnostics = results.flatMap((result, index) =>
+    result === null || result.ok
+      ? []
+      : result.issues.map((issue) => ({ ...issue, file: relativePath, entry, index })),
+  );
+  if (diagnostics.length > 0) {
+    file.data.leafletDiagnostics = [...(file.data.leafletDiagnostics ?? []), ...diagnostics];
+  }
+
+  return results.flatMap((result) => (result?.ok ? [result.value] : []));
 }
 
 function clamp(value: number, min: number, max: number): number {
@@ -100,98 +268,81 @@ function clamp(value: number, min: number, max: number): number {
 }
 
 /**
- * VALIDATORS.TS
+ * OPTIONS.TS
  */
 
-type ValidatedProperties = string | Wiki | number;
-
-function stringValidator(value: unknown): value is string {
-  return typeof value === "string";
-}
-
-function sourcevalidator(value: unknown): value is string | Wiki {
-  const preparedValue = typeof value === "string" ? value : value?.toString();
-  return !!preparedValue;
-}
-
-function numberValidator(value: unknown): value is number {
-  return Number.isFinite(value);
-}
-
-function positiveNumberValidator(value: unknown): value is number {
-  return numberValidator(value) && value > 0;
-}
-
-function coordinatesValidator(value: unknown): value is Coordinates {
-  return typeof value === "string" && C.regExp.coordinatesValidation.test(value);
+function markersWithoutMapValidator(value: unknown): value is Options["markersWithoutMap"] {
+  if (value === "everywhere" || value === "nowhere") return true;
+  return isNonEmptyObject(value) && stringValidator(value.map) && value.map !== "";
 }
 
-function iconValidator(value: unknown): value is string {
-  return typeof value === "string" && C.regExp.iconValidation.test(value);
+function versionValidator(value: unknown): value is string {
+  return typeof value === "string" && C.regExp.version.test(value);
 }
 
-function colourValidator(value: unknown): value is Hex {
-  return typeof value === "string" && C.regExp.hexColourValidation.test(value);
-}
-
-const Validator = {
-  string: stringValidator,
-  source: sourcevalidator,
-  number: numberValidator,
-  positiveNumber: positiveNumberValidator,
-  coordinates: coordinatesValidator,
-  icon: iconValidator,
-  colour: colourValidator,
-} as const satisfies Record<string, ValidatorFunction<ValidatedProperties>>;
-
-/**
- * SCHEMAS.TS
- */
-
-type Schema<T extends string> = Record<
-  T,
-  { validator: ValidatorFunction<unknown>; required?: boolean }
->;
-type ValidatedSchemas = MarkerObject | MapObject;
-
-const markerSchema: Schema<keyof MarkerObject> = {
-  mapName: { validator: Validator.string },
-  coordinates: { validator: Validator.coordinates, required: true },
-  icon: { validator: Validator.icon },
-  colour: { validator: Validator.colour },
-  minZoom: { validator: Validator.number },
-};
-const mapSchema: Schema<keyof MapObject> = {
-  name: { validator: Validator.string },
-  image: { validator: Validator.source, required: true },
-  height: { validator: Validator.number },
+const optionsSchema: Schema<keyof Options> = {
+  integrity: { validator: Validator.boolean },
+  strict: { validator: Validator.boolean },
+  markersWithoutMap: {
+    validator: markersWithoutMapValidator,
+    expected: '"everywhere", "nowhere" or { map: "<mapName>" }',
+  },
+  markerColour: { validator: Validator.colour },
+  markerIcon: { validator: Validator.icon },
+  height: { validator: Validator.positiveNumber },
   minZoom: { validator: Validator.number },
   maxZoom: { validator: Validator.number },
-  defaultZoom: { validator: Validator.number },
   zoomDelta: { validator: Validator.positiveNumber },
-  scale: { validator: Validator.number },
-  unit: { validator: Validator.string },
+  leafletVersion: {
+    validator: versionValidator,
+    expected: `a version such as "${leafletAssets.leaflet.version}"`,
+  },
+  lucideVersion: {
+    validator: versionValidator,
+    expected: `a version such as "${leafletAssets.lucide.version}"`,
+  },
+  codeBlockLanguage: { validator: Validator.string },
+  sessionDate: { validator: Validator.date },
 };
 
-function schemaValidatorFactory<T extends ValidatedSchemas>(
-  schema: Schema<string>,
-): ValidatorFunction<T> {
-  function schemaValidator(value: unknown): value is T {
-    if (!isNonEmptyObject(value)) return false;
-
-    return Object.entries(schema)
-      .map(([key, validate]) => {
-        return (value[key] === undefined && !validate.required) || validate.validator(value[key]);
-      })
-      .every(Boolean);
+function checkOptions(opts: Options): string[] {
+  const issues = checkSchema(optionsSchema, opts).map(
+    ({ field, reason }) => `"${field}" ${reason}`,
+  );
+  // The checks below rely on every option having the right type
+  if (issues.length > 0) return issues;
+
+  if (opts.minZoom > opts.maxZoom) {
+    issues.push(`"minZoom" is ${opts.minZoom}, expected at most "maxZoom" (${opts.maxZoom})`);
+  }
+  if (opts.codeBlockLanguage.trim() === "") {
+    issues.push(`"codeBlockLanguage" is empty, expected the language of a code block`);
+  }
+  const sessionDate = process.env[C.sessionDateVariable];
+  if (opts.sessionDate === undefined && sessionDate && !dateValidator(sessionDate)) {
+    issues.push(
+      `${C.sessionDateVariable} is ${JSON.stringify(sessionDate)}, expected ${expectations.get(Validator.date)}`,
+    );
   }
-  return schemaValidator;
+  // Integrity hashes are computed from the installed packages
+  const versions = [
+    ["leafletVersion", opts.leafletVersion, leafletAssets.leaflet.version],
+    ["lucideVersion", opts.lucideVersion, leafletAssets.lucide.version],
+  ] as const;
+  for (const [field, version, installed] of versions) {
+    if (opts.integrity && version !== installed) {
+      issues.push(`"${field}" is "${version}", expected "${installed}" as "integrity" is on`);
+    }
+  }
+  return issues;
 }
 
-export const SchemaValidator = {
-  marker: schemaValidatorFactory<MarkerObject>(markerSchema),
-  map: schemaValidatorFactory<MapObject>(mapSchema),
-} as const satisfies Record<string, ValidatorFunction<ValidatedSchemas>>;
+function validateOptions(opts: Options): void {
+  const issues = checkOptions(opts);
+  if (issues.length > 0) {
+    throw new Error(`Invalid LeafletMap options:\n  ${issues.join("\n  ")}`);
+  }
+}
 
 /**
  * MARKER.TS
@@ -200,50 +351,81 @@ export const SchemaValidator = {
 interface MarkerEntry extends MarkerObject {
   name: string;
   link: FullSlug;
+  // Cover image of the note, either an absolute URL or the slug of an image in the vault
+  cover?: string;
+  // Other names of the note the marker can be searched by
+  aliases: string[];
 }
 
-function isProperEntry(entry: unknown): entry is { [key: string]: string | number } {
-  if (!isNonEmptyObject(entry)) return false;
-  return Object.values(entry).every(
-    (property) => typeof property === "string" || typeof property === "number",
-  );
-}
+// The properties every marker takes from the note it is defined in
+type MarkerNote = Pick<MarkerEntry, "name" | "link" | "cover" | "aliases">;
 
-function parseMarkerFromEntry(entry: unknown, name: string, link: FullSlug): MarkerEntry | null {
-  if (!isProperEntry(entry)) return null;
-  if (!SchemaValidator.marker(entry)) return null;
-  return {
+function parseMarkerFromEntry(
+  entry: unknown,
+  note: MarkerNote,
+  tags: string[],
+): ParseResult<MarkerEntry> {
+  if (!isNonEmptyObject(entry)) return { ok: false, issues: checkSchema(markerSchema, entry) };
+  // Left as it is when it cannot be read, so the diagnostic shows what was written
+  const marker = {
     ...entry,
-    name,
-    link,
+    coordinates: normaliseCoordinates(entry.coordinates) ?? entry.coordinates,
+  };
+  if (!isProperEntry(marker) || !SchemaValidator.marker(marker)) {
+    return {
+      ok: false,
+      issues: [...checkProperEntry(markerSchema, marker), ...checkSchema(markerSchema, marker)],
+    };
+  }
+  if (marker.from !== undefined && marker.to !== undefined && marker.from > marker.to) {
+    return { ok: false, issues: [{ field: "to", reason: "ends before it starts" }] };
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...marker,
+      category: marker.category ?? tags.at(0),
+      ...note,
+    },
   };
 }
 
-function buildMarkerData(file: VFile): void {
+// `socialImage` also holds the `image` and `cover` properties, see the FrontMatter transformer
+function getCover(ctx: BuildCtx, slug: FullSlug, image: string | undefined): string | undefined {
+  if (!image) return;
+  if (isAbsoluteURL(image)) return image;
+  const link = transformLink(slug, image, { strategy: "shortest", allSlugs: ctx.allSlugs });
+  return resolveSlug(slug, link);
+}
+
+function buildMarkerData(ctx: BuildCtx, opts: Options, file: VFile): void {
   const { slug, frontmatter } = file.data;
   const markerData = frontmatter?.marker;
 
-  if (!slug || !frontmatter || !frontmatter?.title || !markerData || !Array.isArray(markerData)) {
+  if (!slug || !frontmatter || !frontmatter?.title || !markerData) return;
+  if (!Array.isArray(markerData)) {
+    collectResults(file, "marker", [
+      { ok: false, issues: [{ reason: "is not a list, start each marker with a dash" }] },
+    ]);
     return;
   }
 
-  markerData
-    .map((entry) => parseMarkerFromEntry(entry, frontmatter.title, slug))
-    .filter(isNotNull)
-    .forEach((marker) => {
-      const mapName = marker.mapName;
-
-      if (!mapName) {
-        LEAFLET_MAP_PLUGIN_DATA.markerMap["notDefinedMap"]?.push(marker);
-        return;
-      }
-
-      if (LEAFLET_MAP_PLUGIN_DATA.markerMap[mapName] === undefined) {
-        LEAFLET_MAP_PLUGIN_DATA.markerMap[mapName] = [];
-      }
-
-      LEAFLET_MAP_PLUGIN_DATA.markerMap[mapName]?.push(marker);
-    });
+  const note: MarkerNote = {
+    name: frontmatter.title,
+    link: slug,
+    cover: getCover(ctx, slug, frontmatter.socialImage),
+    aliases: frontmatter.aliases ?? [],
+  };
+  file.data.mapMarkers = collectResults(
+    file,
+    "marker",
+    markerData.map((entry) => parseMarkerFromEntry(entry, note, frontmatter.tags ?? [])),
+  ).map((marker) => ({
+    ...marker,
+    icon: marker.icon ?? opts.markerIcon,
+    colour: marker.colour ?? opts.markerColour,
+  }));
 }
 
 function buildMarkerElement(
@@ -251,17 +433,30 @@ function buildMarkerElement(
   currentSlug: FullSlug,
   mapMinZoom: number,
 ): Element {
+  const icon = (marker.icon ?? C.marker.default.icon).replace("lucide-", "");
   return {
     type: "element",
     tagName: "div",
     properties: {
       class: ["leaflet-marker"],
-      "data-name": marker.name,
-      "data-link": resolveRelative(currentSlug, marker.link as FullSlug),
-      "data-coordinates": marker.coordinates,
-      "data-icon": (marker.icon ?? C.marker.default.icon).replace("lucide-", ""),
-      "data-colour": marker.colour ?? C.marker.default.colour,
-      "data-min-zoom": marker.minZoom ?? mapMinZoom,
+      ...dataAttributes({
+        name: marker.name,
+        link: resolveRelative(currentSlug, marker.link as FullSlug),
+        slug: marker.link,
+        coordinates: marker.coordinates,
+        icon,
+        colour: marker.colour ?? C.marker.default.colour,
+        minZoom: (marker.minZoom ?? mapMinZoom).toString(),
+        layer: marker.layer,
+        category: marker.category ?? icon,
+        from: marker.from?.toString(),
+        to: marker.to?.toString(),
+        aliases: marker.aliases.length > 0 ? JSON.stringify(marker.aliases) : undefined,
+        cover:
+          marker.cover && !isAbsoluteURL(marker.cover)
+            ? resolveRelative(currentSlug, marker.cover as FullSlug)
+            : marker.cover,
+      } satisfies MarkerDataset),
     },
     children: [],
   };
@@ -269,6 +464,14 @@ function buildMarkerElement(
 
 declare module "vfile" {
   interface DataMap {
+    mapMarkers: MarkerEntry[];
+    mapRegions: RegionEntry[];
+    mapPaths: PathEntry[];
+    hasLeafletMap: boolean;
+    leafletMapImages: FullSlug[];
+    mapDefinitions: MapDefinition[];
+    leafletMaps: RenderedMap[];
+    leafletDiagnostics: MapDiagnostic[];
     slug: FullSlug;
     filePath: FilePath;
     relativePath: FilePath;
@@ -291,6 +494,255 @@ declare module "vfile" {
   }
 }
 
+/**
+ * REGION.TS
+ */
+
+interface RegionEntry extends RegionObject {
+  name: string;
+  link: FullSlug;
+}
+
+function parseRegionFromEntry(
+  entry: unknown,
+  note: Pick<MarkerNote, "name" | "link">,
+): ParseResult<RegionEntry> {
+  if (!isNonEmptyObject(entry)) return { ok: false, issues: checkSchema(regionSchema, entry) };
+  const region = { ...entry, vertices: normaliseCoordinateList(entry.vertices) ?? entry.vertices };
+  if (!SchemaValidator.region(region)) {
+    return { ok: false, issues: checkSchema(regionSchema, region) };
+  }
+
+  return {
+    ok: true,
+    value: {
+      ...region,
+      ...note,
+    },
+  };
+}
+
+function buildRegionData(file: VFile): void {
+  const { slug, frontmatter } = file.data;
+  const regionData = frontmatter?.region;
+
+  if (!slug || !frontmatter?.title || !regionData) return;
+
+  // Most notes describe a single area, so a lone region does not have to be wrapped in a list
+  file.data.mapRegions = collectResults(
+    file,
+    "region",
+    [regionData]
+      .flat()
+      .map((entry) => parseRegionFromEntry(entry, { name: frontmatter.title, link: slug })),
+  );
+}
+
+function buildRegionElement(region: RegionEntry, currentSlug: FullSlug): Element {
+  const colour = region.colour ?? C.region.default.colour;
+  return {
+    type: "element",
+    tagName: "div",
+    properties: {
+      class: ["leaflet-region"],
+      ...dataAttributes({
+        name: region.name,
+        link: resolveRelative(currentSlug, region.link),
+        vertices: JSON.stringify(region.vertices),
+        colour,
+        fillColour: region.fillColour ?? colour,
+        opacity: (region.opacity ?? C.region.default.opacity).toString(),
+        terrain: region.terrain?.toString(),
+      } satisfies RegionDataset),
+    },
+    children: [],
+  };
+}
+
+/**
+ * PATH.TS
+ */
+
+interface PathEntry extends PathObject {
+  name: string;
+  link: FullSlug;
+}
+
+function parsePathFromEntry(
+  entry: unknown,
+  note: Pick<MarkerNote, "name" | "link">,
+): ParseResult<PathEntry> {
+  if (!isNonEmptyObject(entry)) return { ok: false, issues: checkSchema(pathSchema, entry) };
+  const path = { ...entry, points: normaliseCoordinateList(entry.points) ?? entry.points };
+  if (!SchemaValidator.path(path)) return { ok: false, issues: checkSchema(pathSchema, path) };
+
+  return {
+    ok: true,
+    value: {
+      ...path,
+      ...note,
+    },
+  };
+}
+
+function buildPathData(file: VFile): void {
+  const { slug, frontmatter } = file.data;
+  const pathData = frontmatter?.path;
+
+  if (!slug || !frontmatter?.title || !pathData) return;
+
+  // A route note usually owns a single line, so it does not have to be wrapped in a list
+  file.data.mapPaths = collectResults(
+    file,
+    "path",
+    [pathData]
+      .flat()
+      .map((entry) => parsePathFromEntry(entry, { name: frontmatter.title, link: slug })),
+  );
+}
+
+function buildPathElement(path: PathEntry, currentSlug: FullSlug): Element {
+  return {
+    type: "element",
+    tagName: "div",
+    properties: {
+      class: ["leaflet-path"],
+      ...dataAttributes({
+        name: path.name,
+        link: resolveRelative(currentSlug, path.link),
+        points: JSON.stringify(path.points),
+        colour: path.colour ?? C.path.default.colour,
+        dash: path.dash?.trim(),
+        width: (path.width ?? C.path.default.width).toString(),
+      } satisfies PathDataset),
+    },
+    children: [],
+  };
+}
+
+/**
+ * COLLECT.TS
+ */
+
+// Entries without a map name are kept for every map, dropped, or moved to the default map
+function assignMap<T extends { mapName?: string }>(opts: Options, entries: T[]): T[] {
+  const { markersWithoutMap } = opts;
+  if (markersWithoutMap === "everywhere") return entries;
+  if (markersWithoutMap === "nowhere") return entries.filter((entry) => entry.mapName);
+  return entries.map((entry) =>
+    entry.mapName ? entry : { ...entry, mapName: markersWithoutMap.map },
+  );
+}
+
+function getSessionDate(opts: Options): Date {
+  const sessionDate = opts.sessionDate ?? process.env[C.sessionDateVariable];
+  return sessionDate ? parseDate(sessionDate) : new Date();
+}
+
+// Unrevealed entries are dropped before they reach the HTML, so nothing gives them away early
+function reveal<T extends { revealAfter?: string }>(sessionDate: Date, entries: T[]): T[] {
+  return entries.filter(
+    ({ revealAfter }) => revealAfter === undefined || parseDate(revealAfter) <= sessionDate,
+  );
+}
+
+function placeEntries(opts: Options, sessionDate: Date, file: VFile): void {
+  const { mapMarkers, mapRegions, mapPaths } = file.data;
+  if (mapMarkers) file.data.mapMarkers = assignMap(opts, reveal(sessionDate, mapMarkers));
+  if (mapRegions) file.data.mapRegions = assignMap(opts, reveal(sessionDate, mapRegions));
+  if (mapPaths) file.data.mapPaths = assignMap(opts, reveal(sessionDate, mapPaths));
+}
+
+// Entries of the whole vault, grouped by the map they belong to
+type ByMap<T> = { [mapName: string]: T[] };
+
+interface MarkerIndex {
+  markers: ByMap<MarkerEntry>;
+  regions: ByMap<RegionEntry>;
+  paths: ByMap<PathEntry>;
+  // The notes those markers come from, as seen by Bases filters
+  notes: { [slug: FullSlug]: BasesFile };
+  maps: MapDefinition[];
+}
+
+// Filter plugins only run after the transformers, so apply them (and the ignore patterns)
+// here to keep markers of drafts and unpublished notes off the maps
+function isPublished(ctx: BuildCtx, file: VFile): boolean {
+  const relativePath = file.data.relativePath;
+  if (!relativePath) return false;
+
+  const isIgnored = ctx.cfg.configuration.ignorePatterns.some(
+    (pattern) => minimatch(relativePath, pattern) || minimatch(relativePath, `${pattern}/**`),
+  );
+  if (isIgnored) return false;
+
+  const content = defaultProcessedContent(file.data);
+  return ctx.cfg.plugins.filters.every((filter) => filter.shouldPublish(ctx, content));
+}
+
+function addToMap<T extends { mapName?: string }>(entries: ByMap<T>, entry: T) {
+  const mapName = entry.mapName || "notDefinedMap";
+  if (entries[mapName] === undefined) {
+    entries[mapName] = [];
+  }
+
+  entries[mapName]?.push(entry);
+}
+
+function collectMarkers(ctx: BuildCtx, files: VFile[]): MarkerIndex {
+  const markerIndex: MarkerIndex = {
+    markers: { notDefinedMap: [] },
+    regions: { notDefinedMap: [] },
+    paths: { notDefinedMap: [] },
+    notes: {},
+    maps: [],
+  };
+
+  // Sort by slug so the result does not depend on the order in which files were parsed
+  [...files]
+    .filter((file) => isPublished(ctx, file))
+    .sort((a, b) => (a.data.slug ?? "").localeCompare(b.data.slug ?? ""))
+    .forEach((file) => {
+      const {
+        slug,
+        relativePath,
+        frontmatter,
+        mapMarkers = [],
+        mapRegions = [],
+        mapPaths = [],
+        mapDefinitions = [],
+      } = file.data;
+      markerIndex.maps.push(...mapDefinitions);
+
+      const entryCount = mapMarkers.length + mapRegions.length + mapPaths.length;
+      if (!slug || !relativePath || entryCount === 0) return;
+
+      markerIndex.notes[slug] = {
+        path: relativePath,
+        tags: frontmatter?.tags ?? [],
+        properties: frontmatter ?? {},
+      };
+
+      mapMarkers.forEach((marker) => addToMap(markerIndex.markers, marker));
+      mapRegions.forEach((region) => addToMap(markerIndex.regions, region));
+      mapPaths.forEach((path) => addToMap(markerIndex.paths, path));
+    });
+
+  return markerIndex;
+}
+
+function getMarkerIndex(ctx: BuildCtx): MarkerIndex {
+  return (
+    (ctx.collected[C.name] as MarkerIndex | undefined) ?? {
+      markers: { notDefinedMap: [] },
+      regions: { notDefinedMap: [] },
+      paths: { notDefinedMap: [] },
+      notes: {},
+      maps: [],
+    }
+  );
+}
+
 /**
  * MAP.TS
  */
@@ -301,6 +753,12 @@ type ExtendedNode = Node & {
   properties?: { [key: string]: string };
 };
 
+// Same resolution as the CrawlLinks plugin uses, WHATWG URL percent-encodes everything
+function resolveSlug(currentSlug: FullSlug, link: RelativeURL): FullSlug {
+  const url = new URL(link, "https://base.com/" + stripSlashes(currentSlug, true));
+  return decodeURIComponent(stripSlashes(url.pathname, true)) as FullSlug;
+}
+
 function source(node: ExtendedNode): string {
   if (node.type === "text" && node.value !== undefined) return node.value;
   if (node.children === undefined) return "";
@@ -308,55 +766,238 @@ function source(node: ExtendedNode): string {
   return node.children.map((child) => source(child)).join("");
 }
 
-function parseMapFromNode(node: ExtendedNode): MapObject | undefined {
-  const entry: unknown = load(source(node));
-  if (!isNonEmptyObject(entry) || !Array.isArray(entry.views)) return;
-  return entry.views
-    .map((view) => {
-      if (!isProperEntry(view)) return null;
-      // Confirm we are working with the right type of base
-      if (!view.type || view.type !== "leaflet-map") return null;
-
-      const object = {
-        name: view.mapName,
-        image: view.image,
-        height: view.height,
-        minZoom: view.minZoom,
-        maxZoom: view.maxZoom,
-        defaultZoom: view.defaultZoom,
-        zoomDelta: view.zoomDelta,
-        scale: parseFloat((view.scale ?? "").toString()),
-        unit: view.unit,
+// Bases apply both the filters of the base and those of the view
+function combineFilters(...filters: unknown[]): unknown {
+  const defined = filters.filter((filter) => filter !== undefined && filter !== null);
+  if (defined.length <= 1) return defined.at(0);
+  return { and: defined };
+}
+
+function getLayers(mapData: MapObject): LayerObject[] {
+  const imageLayer = mapData.image ? [{ name: C.map.default.layerName, image: mapData.image }] : [];
+  return [...imageLayer, ...(mapData.layers ?? [])];
+}
+
+// One result per view of the base, null for views of other types which are left to Bases
+function parseMapFromSource(text: string): (ParseResult<MapObject> | null)[] {
+  let entry: unknown;
+  try {
+    entry = load(text);
+  } catch (error) {
+    // Reported for the code block as a whole, as its views cannot be told apart
+    if (!(error instanceof YAMLException)) throw error;
+    return [{ ok: false, issues: [{ reason: `is not valid YAML: ${error.reason}` }] }];
+  }
+  if (!isNonEmptyObject(entry) || !Array.isArray(entry.views)) return [];
+  return entry.views.map((rawView): ParseResult<MapObject> | null => {
+    // Confirm we are working with the right type of base
+    if (!isNonEmptyObject(rawView) || rawView.type !== "leaflet-map") return null;
+    const { filters, layers, origin, travel, timeline, ...view } = rawView;
+    if (!isProperEntry(view)) return { ok: false, issues: checkProperEntry(mapSchema, view) };
+
+    // Read leniently, so "0.5" works as well as 0.5
+    const scale = parseFloat((view.scale ?? "").toString());
+
+    const object = {
+      name: view.mapName,
+      image: view.image,
+      layers,
+      height: view.height,
+      minZoom: view.minZoom,
+      maxZoom: view.maxZoom,
+      defaultZoom: view.defaultZoom,
+      zoomDelta: view.zoomDelta,
+      scale: Number.isNaN(scale) ? view.scale : scale,
+      unit: view.unit,
+      popups: view.popups,
+      clusterRadius: view.clusterRadius,
+      coordinateSystem: view.coordinateSystem,
+      // Left as it is when it cannot be read, so the map fails validation
+      origin: origin !== undefined ? (normaliseCoordinates(origin) ?? origin) : undefined,
+      axisScale: view.axisScale,
+      travel,
+      timeline,
+      filters: combineFilters(entry.filters, filters),
+    };
+
+    if (!SchemaValidator.map(object)) {
+      return {
+        ok: false,
+        // The name of a map is written as `mapName`, as it is on markers
+        issues: checkSchema(mapSchema, object).map((issue) =>
+          issue.field === "name" ? { ...issue, field: "mapName" } : issue,
+        ),
       };
+    }
 
-      if (!SchemaValidator.map(object)) return null;
-      return object;
-    })
-    .filter(isNotNull)
-    .at(0);
+    // The first base layer sets the size of the map, so there has to be one
+    if (!getLayers(object).some((layer) => !layer.overlay)) {
+      return {
+        ok: false,
+        issues: [{ field: "image", reason: "is required when every layer is an overlay" }],
+      };
+    }
+    if (object.timeline && object.timeline.from > object.timeline.to) {
+      return { ok: false, issues: [{ field: "timeline", reason: "ends before it starts" }] };
+    }
+    return { ok: true, value: object };
+  });
 }
 
-function buildMapData(ctx: BuildCtx, file: VFile, node: ExtendedNode): Element | undefined {
-  const mapData = parseMapFromNode(node);
-  if (!mapData) return;
+function buildLayerElement(layer: LayerDataset): Element {
+  return {
+    type: "element",
+    tagName: "div",
+    properties: {
+      class: ["leaflet-map-layer"],
+      ...dataAttributes(layer),
+    },
+    children: [],
+  };
+}
 
-  const currentSlug = file.data.slug;
-  if (!currentSlug) throw new Error(`${file.path} has no slug`);
-  const mapSource = transformLink(currentSlug, mapData.image.toString(), {
-    strategy: "shortest",
-    allSlugs: ctx.allSlugs,
+// A map as defined on a page, so other pages can show part of it
+interface MapDefinition {
+  map: MapObject;
+  slug: FullSlug;
+  // Position among the maps of that page, deep links refer to the map by it
+  index: number;
+}
+
+interface RenderedMap extends MapDefinition {
+  // Markers shown on the map once its filters are applied
+  markerCount: number;
+}
+
+// Images are resolved from the page the map is defined on, but linked from the page it is shown on
+function buildLayerElements(
+  ctx: BuildCtx,
+  mapData: MapObject,
+  mapSlug: FullSlug,
+  currentSlug: FullSlug,
+): { elements: Element[]; imageSlugs: FullSlug[] } {
+  const hasTiles = ctx.cfg.plugins.emitters.some(
+    (emitter) => emitter.name === LeafletTilesEmitterName,
+  );
+  const layers = getLayers(mapData).map((layer) => {
+    const link = transformLink(mapSlug, layer.image.toString(), {
+      strategy: "shortest",
+      allSlugs: ctx.allSlugs,
+    });
+    const imageSlug = resolveSlug(mapSlug, link);
+    const element = buildLayerElement({
+      name: layer.name,
+      src: resolveRelative(currentSlug, imageSlug),
+      tiles: hasTiles ? resolveRelative(currentSlug, leafletTilesSlug(imageSlug)) : undefined,
+      overlay: (layer.overlay ?? false).toString(),
+      opacity: (layer.opacity ?? 1).toString(),
+    });
+    return { element, imageSlug };
   });
 
-  const undefinedMarkers = LEAFLET_MAP_PLUGIN_DATA.markerMap["notDefinedMap"] ?? [];
-  const definedMarkers = mapData.name
-    ? (LEAFLET_MAP_PLUGIN_DATA.markerMap[mapData.name] ?? [])
-    : [];
-  const markers = [...undefinedMarkers, ...definedMarkers];
+  return {
+    elements: layers.map(({ element }) => element),
+    imageSlugs: layers.map(({ imageSlug }) => imageSlug),
+  };
+}
+
+// Moves coordinates from those of the map to pixels of its image, counted from the corner its
+// coordinate system starts at
+function mapProjection({
+  origin,
+  axisScale,
+}: MapObject): (coordinates: Coordinates) => Coordinates {
+  const [originLat, originLng] = coordinatePair(origin ?? "0, 0");
+  const scale = axisScale ?? 1;
+  return (coordinates) => {
+    const [lat, lng] = coordinatePair(coordinates);
+    return `${originLat + lat * scale}, ${originLng + lng * scale}`;
+  };
+}
+
+function projectEntries(
+  mapData: MapObject,
+  markers: MarkerEntry[],
+  regions: RegionEntry[],
+  paths: PathEntry[],
+): { markers: MarkerEntry[]; regions: RegionEntry[]; paths: PathEntry[] } {
+  const project = mapProjection(mapData);
+  return {
+    markers: markers.map((marker) => ({ ...marker, coordinates: project(marker.coordinates) })),
+    regions: regions.map((region) => ({ ...region, vertices: region.vertices.map(project) })),
+    paths: paths.map((path) => ({ ...path, points: path.points.map(project) })),
+  };
+}
+
+// Settings a map leaves out are taken from the plugin options
+function applyMapDefaults(opts: Options, mapData: MapObject): MapObject {
+  return {
+    ...mapData,
+    height: mapData.height ?? opts.height,
+    minZoom: mapData.minZoom ?? opts.minZoom,
+    maxZoom: mapData.maxZoom ?? opts.maxZoom,
+    zoomDelta: mapData.zoomDelta ?? opts.zoomDelta,
+  };
+}
 
+function buildMapDataset(mapData: MapObject): MapDataset {
   const minZoom = mapData.minZoom ?? C.map.default.minZoom;
   const maxZoom = Math.max(mapData.maxZoom ?? C.map.default.maxZoom, minZoom);
-
   return {
+    height: (mapData.height ?? C.map.default.height).toString(),
+    minZoom: minZoom.toString(),
+    maxZoom: maxZoom.toString(),
+    defaultZoom: clamp(mapData.defaultZoom ?? minZoom, minZoom, maxZoom).toString(),
+    zoomDelta: (mapData.zoomDelta ?? C.map.default.zoomDelta).toString(),
+    scale: (mapData.scale ?? C.map.default.scale).toString(),
+    unit: mapData.unit ?? C.map.default.unit,
+    popups: (mapData.popups ?? false).toString(),
+    clusterRadius: (mapData.clusterRadius ?? 0).toString(),
+    coordinateSystem: mapData.coordinateSystem ?? C.map.default.coordinateSystem,
+    travel: mapData.travel?.length ? JSON.stringify(mapData.travel) : undefined,
+    timelineFrom: mapData.timeline?.from.toString(),
+    timelineTo: mapData.timeline?.to.toString(),
+  };
+}
+
+function buildMapData(
+  ctx: BuildCtx,
+  opts: Options,
+  file: VFile,
+  mapData: MapObject,
+): { element: Element; markerCount: number } {
+  const currentSlug = file.data.slug;
+  if (!currentSlug) throw new Error(`${file.path} has no slug`);
+  const layers = buildLayerElements(ctx, mapData, currentSlug, currentSlug);
+  file.data.leafletMapImages = [...(file.data.leafletMapImages ?? []), ...layers.imageSlugs];
+
+  const { markers: markerMap, regions: regionMap, paths: pathMap, notes } = getMarkerIndex(ctx);
+  const filter = mapData.filters !== undefined ? compileFilter(mapData.filters) : () => true;
+  // Entries without a map name show up on every map
+  const getEntries = <T extends { link: FullSlug }>(entries: ByMap<T>): T[] =>
+    [
+      ...(entries["notDefinedMap"] ?? []),
+      ...(mapData.name ? (entries[mapData.name] ?? []) : []),
+    ].filter((entry) => {
+      const note = notes[entry.link];
+      return note !== undefined && filter(note);
+    });
+  const { markers, regions, paths } = projectEntries(
+    mapData,
+    getEntries(markerMap),
+    getEntries(regionMap),
+    getEntries(pathMap),
+  );
+
+  const dataset: MapDataset = {
+    ...buildMapDataset(mapData),
+    mapName: mapData.name,
+    origin: mapData.origin,
+    axisScale: mapData.axisScale?.toString(),
+    markerIcon: opts.markerIcon,
+    markerColour: opts.markerColour,
+  };
+  const element: Element = {
     type: "element",
     tagName: "div",
     properties: {},
@@ -366,86 +1007,335 @@ function buildMapData(ctx: BuildCtx, file: VFile, node: ExtendedNode): Element |
         tagName: "div",
         properties: {
           class: ["leaflet-map"],
-          "data-src": mapSource,
-          "data-height": mapData.height ?? C.map.default.height,
-          "data-min-zoom": minZoom,
-          "data-max-zoom": maxZoom,
-          "data-default-zoom": clamp(mapData.defaultZoom ?? minZoom, minZoom, maxZoom),
-          "data-zoom-delta": mapData.zoomDelta ?? C.map.default.zoomDelta,
-          "data-scale": mapData.scale ?? C.map.default.scale,
-          "data-unit": mapData.unit ?? C.map.default.unit,
+          ...dataAttributes(dataset),
         },
-        children: markers.map((marker) => buildMarkerElement(marker, currentSlug, minZoom)),
+        children: [
+          ...layers.elements,
+          ...regions.map((region) => buildRegionElement(region, currentSlug)),
+          ...paths.map((path) => buildPathElement(path, currentSlug)),
+          ...markers.map((marker) =>
+            buildMarkerElement(marker, currentSlug, parseFloat(dataset.minZoom)),
+          ),
+        ],
       },
     ],
   };
+  return { element, markerCount: markers.length };
 }
 
-function transformMapElement(ctx: BuildCtx, tree: Root, file: VFile): void {
+function transformMapElement(ctx: BuildCtx, opts: Options, tree: Root, file: VFile): void {
   visit(
     tree,
     { tagName: "code" },
     (node: ExtendedNode, index: number | undefined, parent: Parent | undefined) => {
-      if (node.properties?.dataLanguage !== "base" || !parent || index === undefined) {
-        return;
-      }
+      const language = node.properties?.dataLanguage;
+      if (language !== opts.codeBlockLanguage || !parent || index === undefined) return;
 
-      const leafletElement = buildMapData(ctx, file, node);
-      if (!leafletElement) return;
+      const view = collectResults(file, "map view", parseMapFromSource(source(node))).at(0);
+      if (!view || !file.data.slug) return;
+      const mapData = applyMapDefaults(opts, view);
 
       // Replace the codeblock with the leaflet element
-      parent.children[index] = leafletElement;
+      const { element, markerCount } = buildMapData(ctx, opts, file, mapData);
+      parent.children[index] = element;
+      const leafletMaps = file.data.leafletMaps ?? [];
+      file.data.leafletMaps = [
+        ...leafletMaps,
+        { map: mapData, slug: file.data.slug, index: leafletMaps.length, markerCount },
+      ];
+      file.data.hasLeafletMap = true;
     },
   );
 }
 
+// Read in the markdown phase already, so the collected data changes along with the maps
+function buildMapDefinitions(opts: Options, tree: Root, file: VFile): void {
+  const { slug } = file.data;
+  if (!slug) return;
+
+  const definitions: MapDefinition[] = [];
+  visit(tree, "code", (node: Code) => {
+    if (node.lang !== opts.codeBlockLanguage) return;
+
+    // The same view transformMapElement renders, its issues are reported from there
+    const view = parseMapFromSource(node.value)
+      .flatMap((result) => (result?.ok ? [result.value] : []))
+      .at(0);
+    if (!view) return;
+    definitions.push({ map: applyMapDefaults(opts, view), slug, index: definitions.length });
+  });
+
+  if (definitions.length > 0) file.data.mapDefinitions = definitions;
+}
+
 /**
- * CORE.TS
+ * LOCATION.TS
  */
 
-export const LeafletMap: QuartzTransformerPlugin = () => ({
-  name: "LeafletMapPlugin",
-  markdownPlugins() {
-    return [
-      () => {
-        // For every file, check if the frontmatter contains marker data,
-        // and if so add it to a global constant
-        return (_tree: Root, file: VFile) => buildMarkerData(file);
-      },
-    ];
-  },
-  htmlPlugins(ctx) {
-    return [
-      () => {
-        return (tree: Root, file: VFile) => transformMapElement(ctx, tree, file);
+export interface LocationMap {
+  element: Element;
+  // Opens the full map on the marker
+  link: string;
+}
+
+/**
+ * Builds a small map around the markers of a note, with the settings of the map they are on.
+ * Markers without a map name are shown on every map, for those the first map of the vault is used.
+ * Maps whose filters leave the note out are skipped, as the marker would not be on them.
+ */
+export function buildLocationMap(
+  ctx: BuildCtx,
+  fileData: QuartzPluginData,
+  interactive: boolean,
+): LocationMap | undefined {
+  const { slug, mapMarkers = [] } = fileData;
+  if (!slug || mapMarkers.length === 0) return;
+
+  const { notes, maps } = getMarkerIndex(ctx);
+  const note = notes[slug];
+  if (!note) return;
+
+  const mapName = mapMarkers.find((marker) => marker.mapName)?.mapName;
+  const definition = maps.find(({ map }) => {
+    if (mapName !== undefined && map.name !== mapName) return false;
+    return map.filters === undefined || compileFilter(map.filters)(note);
+  });
+  if (!definition) return;
+
+  const { markers } = projectEntries(
+    definition.map,
+    mapMarkers.filter((marker) => !marker.mapName || marker.mapName === definition.map.name),
+    [],
+    [],
+  );
+  const layers = buildLayerElements(ctx, definition.map, definition.slug, slug);
+  const dataset = buildMapDataset(definition.map);
+  const params = new URLSearchParams({ map: definition.index.toString(), marker: slug });
+
+  return {
+    element: {
+      type: "element",
+      tagName: "div",
+      properties: {
+        class: ["leaflet-map", "leaflet-location-map"],
+        ...dataAttributes({
+          ...dataset,
+          interactive: interactive.toString(),
+        } satisfies LocationMapDataset),
       },
-    ];
-  },
-  externalResources() {
-    return {
-      css: [
-        {
-          inline: true,
-          content: `.leaflet-map{width:100%;margin:0;z-index:0;background-color:#5078b41a}.leaflet-map .leaflet-image-layer{margin:0!important}.leaflet-control-button{background:var(--lightgray)}.leaflet-marker-icon a,.leaflet-marker-icon .leaflet-marker-pin{position:absolute;width:32px;height:48px;margin:0 auto;z-index:inherit}.leaflet-marker-icon .leaflet-marker-inner-icon{position:absolute;width:32px;height:19px;font-size:19px;top:8px;left:0;z-index:inherit;margin:0 auto;display:flex;align-items:center;justify-content:center;color:#ebebec}.leaflet-map-property-tag-list{margin:0!important;padding:2px;gap:.3rem;display:flex;color:#ebebec}.leaflet-map-property-tag-item{display:flex;cursor:pointer;padding:0!important;margin:0!important;background:#353535;border-radius:8px;align-items:center;justify-content:space-between}.leaflet-map-property-tag-item-icon{display:flex;justify-content:center;align-items:center;padding:0 .3rem}.leaflet-map-property-tag-item-text{font-size:var(--tag-size);white-space:nowrap}.leaflet-map-property-tag-item-close{display:flex;cursor:pointer;margin-left:.3rem;aspect-ratio:1;justify-content:center;align-items:center;padding:4px;border-radius:8px;color:#ebebec;background:inherit}.leaflet-map-property-tag-item-close:hover{background:#818181b1}.leaflet-map-property-add-item{display:flex;cursor:pointer;aspect-ratio:1;justify-content:center;align-items:center;padding:4px;margin:0!important;border-radius:8px;color:#ebebec;background:#454545}.leaflet-map-property-add-item:hover{background:#818181d0}.leaflet-pane,.leaflet-tile,.leaflet-marker-icon,.leaflet-marker-shadow,.leaflet-tile-container,.leaflet-pane>svg,.leaflet-pane>canvas,.leaflet-zoom-box,.leaflet-image-layer,.leaflet-layer{position:absolute;left:0;top:0}.leaflet-container{overflow:hidden}.leaflet-tile,.leaflet-marker-icon,.leaflet-marker-shadow{-webkit-user-select:none;-moz-user-select:none;user-select:none;-webkit-user-drag:none}.leaflet-tile::selection{background:transparent}.leaflet-safari .leaflet-tile{image-rendering:-webkit-optimize-contrast}.leaflet-safari .leaflet-tile-container{width:1600px;height:1600px;-webkit-transform-origin:0 0;transform-origin:0 0}.leaflet-marker-icon,.leaflet-marker-shadow{display:block}.leaflet-container .leaflet-overlay-pane svg{max-width:none!important;max-height:none!important}.leaflet-container .leaflet-marker-pane img,.leaflet-container .leaflet-shadow-pane img,.leaflet-container .leaflet-tile-pane img,.leaflet-container img.leaflet-image-layer,.leaflet-container .leaflet-tile{max-width:none!important;max-height:none!important;width:auto;padding:0}.leaflet-container img.leaflet-tile{mix-blend-mode:plus-lighter}.leaflet-container.leaflet-touch-zoom{-ms-touch-action:pan-x pan-y;touch-action:pan-x pan-y}.leaflet-container.leaflet-touch-drag{-ms-touch-action:pinch-zoom;touch-action:none;touch-action:pinch-zoom}.leaflet-container.leaflet-touch-drag.leaflet-touch-zoom{-ms-touch-action:none;touch-action:none}.leaflet-container{-webkit-tap-highlight-color:transparent}.leaflet-container a{-webkit-tap-highlight-color:rgba(51,181,229,.4)}.leaflet-tile{filter:inherit;visibility:hidden}.leaflet-tile-loaded{visibility:inherit}.leaflet-zoom-box{width:0;height:0;-moz-box-sizing:border-box;box-sizing:border-box;z-index:800}.leaflet-overlay-pane svg{-moz-user-select:none;user-select:none}.leaflet-pane{z-index:400}.leaflet-tile-pane{z-index:200}.leaflet-overlay-pane{z-index:400}.leaflet-shadow-pane{z-index:500}.leaflet-marker-pane{z-index:600}.leaflet-tooltip-pane{z-index:650}.leaflet-popup-pane{z-index:700}.leaflet-map-pane canvas{z-index:100}.leaflet-map-pane svg{z-index:200}.leaflet-vml-shape{width:1px;height:1px}.lvml{behavior:url(#default#VML);display:inline-block;position:absolute}.leaflet-control{position:relative;z-index:800;pointer-events:visiblePainted;pointer-events:auto}.leaflet-top,.leaflet-bottom{position:absolute;z-index:1000;pointer-events:none}.leaflet-top{top:0}.leaflet-right{right:0}.leaflet-bottom{bottom:0}.leaflet-left{left:0}.leaflet-control{float:left;clear:both}.leaflet-right .leaflet-control{float:right}.leaflet-top .leaflet-control{margin-top:10px}.leaflet-bottom .leaflet-control{margin-bottom:10px}.leaflet-left .leaflet-control{margin-left:10px}.leaflet-right .leaflet-control{margin-right:10px}.leaflet-fade-anim .leaflet-popup{opacity:0;-webkit-transition:opacity .2s linear;-moz-transition:opacity .2s linear;transition:opacity .2s linear}.leaflet-fade-anim .leaflet-map-pane .leaflet-popup{opacity:1}.leaflet-zoom-animated{-webkit-transform-origin:0 0;-ms-transform-origin:0 0;transform-origin:0 0}svg.leaflet-zoom-animated{will-change:transform}.leaflet-zoom-anim .leaflet-zoom-animated{-webkit-transition:-webkit-transform .25s cubic-bezier(0,0,.25,1);-moz-transition:-moz-transform .25s cubic-bezier(0,0,.25,1);transition:transform .25s cubic-bezier(0,0,.25,1)}.leaflet-zoom-anim .leaflet-tile,.leaflet-pan-anim .leaflet-tile{-webkit-transition:none;-moz-transition:none;transition:none}.leaflet-zoom-anim .leaflet-zoom-hide{visibility:hidden}.leaflet-interactive{cursor:pointer}.leaflet-grab{cursor:-webkit-grab;cursor:-moz-grab;cursor:grab}.leaflet-crosshair,.leaflet-crosshair .leaflet-interactive{cursor:crosshair}.leaflet-popup-pane,.leaflet-control{cursor:auto}.leaflet-dragging .leaflet-grab,.leaflet-dragging .leaflet-grab .leaflet-interactive,.leaflet-dragging .leaflet-marker-draggable{cursor:move;cursor:-webkit-grabbing;cursor:-moz-grabbing;cursor:grabbing}.leaflet-marker-icon,.leaflet-marker-shadow,.leaflet-image-layer,.leaflet-pane>svg path,.leaflet-tile-container{pointer-events:none}.leaflet-marker-icon.leaflet-interactive,.leaflet-image-layer.leaflet-interactive,.leaflet-pane>svg path.leaflet-interactive,svg.leaflet-image-layer.leaflet-interactive path{pointer-events:visiblePainted;pointer-events:auto}.leaflet-container{background:var(--lightgray);outline-offset:1px}.leaflet-container a{color:#0078a8}.leaflet-zoom-box{border:2px dotted #38f;background:#ffffff80}.leaflet-container{font-family:Helvetica Neue,Arial,Helvetica,sans-serif;font-size:12px;font-size:.75rem;line-height:1.5}.leaflet-bar{border-radius:4px}.leaflet-bar a,.leaflet-bar div{cursor:pointer;background-color:var(--light);border-bottom:1px solid var(--lightgray);border-radius:0;width:26px;height:26px;line-height:26px;display:block;text-align:center;text-decoration:none;color:var(--dark)}.leaflet-bar div svg{margin-top:3px}.leaflet-bar a,.leaflet-bar div,.leaflet-control-layers-toggle{background-position:50% 50%;background-repeat:no-repeat}.leaflet-bar a,.leaflet-control-layers-toggle{display:block}.leaflet-bar a:hover,.leaflet-bar a:focus,.leaflet-bar div:hover,.leaflet-bar div:focus{color:var(--tertiary);background-color:var(--lightgray)}.leaflet-bar a:first-child,.leaflet-bar div:first-child{border-top-left-radius:4px;border-top-right-radius:4px}.leaflet-bar a:last-child,.leaflet-bar div:last-child{border-bottom-left-radius:4px;border-bottom-right-radius:4px;border-bottom:none}.leaflet-bar a.leaflet-disabled,.leaflet-bar div.selected{cursor:default;background-color:var(--darkgray);color:var(--gray)}.leaflet-touch .leaflet-bar a,.leaflet-touch .leaflet-bar div{width:30px;height:30px;line-height:30px}.leaflet-touch .leaflet-bar a:first-child,.leaflet-touch .leaflet-bar div:first-child{border-radius:2px 2px 0 0/2px 2px 0px 0px}.leaflet-touch .leaflet-bar a:last-child,.leaflet-touch .leaflet-bar div:last-child{border-radius:0 0 2px 2px/0px 0px 2px 2px}.leaflet-control-zoom-in,.leaflet-control-zoom-out{font:700 18px Lucida Console,Monaco,monospace;text-indent:1px}.leaflet-touch .leaflet-control-zoom-in,.leaflet-touch .leaflet-control-zoom-out{font-size:22px}.leaflet-control-layers{box-shadow:0 1px 5px #0006;background:#fff;border-radius:5px}.leaflet-control-layers-toggle{background-image:url(images/layers.png);width:36px;height:36px}.leaflet-retina .leaflet-control-layers-toggle{background-image:url(images/layers-2x.png);background-size:26px 26px}.leaflet-touch .leaflet-control-layers-toggle{width:44px;height:44px}.leaflet-control-layers .leaflet-control-layers-list,.leaflet-control-layers-expanded .leaflet-control-layers-toggle{display:none}.leaflet-control-layers-expanded .leaflet-control-layers-list{display:block;position:relative}.leaflet-control-layers-expanded{padding:6px 10px 6px 6px;color:#333;background:#fff}.leaflet-control-layers-scrollbar{overflow-y:scroll;overflow-x:hidden;padding-right:5px}.leaflet-control-layers-selector{margin-top:2px;position:relative;top:1px}.leaflet-control-layers label{display:block;font-size:13px;font-size:1.08333em}.leaflet-control-layers-separator{height:0;border-top:1px solid #ddd;margin:5px -10px 5px -6px}.leaflet-default-icon-path{background-image:url(images/marker-icon.png)}.leaflet-container .leaflet-control-attribution{background:#fff;background:#fffc;margin:0}.leaflet-control-attribution,.leaflet-control-scale-line{padding:0 5px;color:#333;line-height:1.4}.leaflet-control-attribution a{text-decoration:none}.leaflet-control-attribution a:hover,.leaflet-control-attribution a:focus{text-decoration:underline}.leaflet-attribution-flag{display:inline!important;vertical-align:baseline!important;width:1em;height:.6669em}.leaflet-left .leaflet-control-scale{margin-left:5px}.leaflet-bottom .leaflet-control-scale{margin-bottom:5px}.leaflet-control-scale-line{border:2px solid #777;border-top:none;line-height:1.1;padding:2px 5px 1px;white-space:nowrap;-moz-box-sizing:border-box;box-sizing:border-box;background:#fffc;text-shadow:1px 1px #fff}.leaflet-control-scale-line:not(:first-child){border-top:2px solid #777;border-bottom:none;margin-top:-2px}.leaflet-control-scale-line:not(:first-child):not(:last-child){border-bottom:2px solid #777}.leaflet-touch .leaflet-control-attribution,.leaflet-touch .leaflet-control-layers,.leaflet-touch .leaflet-bar{box-shadow:none}.leaflet-touch .leaflet-control-layers,.leaflet-touch .leaflet-bar{border:2px solid rgba(0,0,0,.2);background-clip:padding-box}.leaflet-popup{position:absolute;text-align:center;margin-bottom:20px}.leaflet-popup-content-wrapper{padding:1px;text-align:left;border-radius:12px}.leaflet-popup-content{margin:13px 24px 13px 20px;line-height:1.3;font-size:13px;font-size:1.08333em;min-height:1px}.leaflet-popup-content p{margin:1.3em 0}.leaflet-popup-tip-container{width:40px;height:20px;position:absolute;left:50%;margin-top:-1px;margin-left:-20px;overflow:hidden;pointer-events:none}.leaflet-popup-tip{width:17px;height:17px;padding:1px;margin:-10px auto 0;pointer-events:auto;-webkit-transform:rotate(45deg);-moz-transform:rotate(45deg);-ms-transform:rotate(45deg);transform:rotate(45deg)}.leaflet-popup-content-wrapper,.leaflet-popup-tip{background:#fff;color:#333;box-shadow:0 3px 14px #0006}.leaflet-container a.leaflet-popup-close-button{position:absolute;top:0;right:0;border:none;text-align:center;width:24px;height:24px;font:16px/24px Tahoma,Verdana,sans-serif;color:#757575;text-decoration:none;background:transparent}.leaflet-container a.leaflet-popup-close-button:hover,.leaflet-container a.leaflet-popup-close-button:focus{color:#585858}.leaflet-popup-scrolled{overflow:auto}.leaflet-oldie .leaflet-popup-content-wrapper{-ms-zoom:1;zoom:1}.leaflet-oldie .leaflet-popup-tip{width:24px;margin:0 auto;-ms-filter:"progid:DXImageTransform.Microsoft.Matrix(M11=0.70710678, M12=0.70710678, M21=-0.70710678, M22=0.70710678)";filter:progid:DXImageTransform.Microsoft.Matrix(M11=.70710678,M12=.70710678,M21=-.70710678,M22=.70710678)}.leaflet-oldie .leaflet-control-zoom,.leaflet-oldie .leaflet-control-layers,.leaflet-oldie .leaflet-popup-content-wrapper,.leaflet-oldie .leaflet-popup-tip{border:1px solid #999}.leaflet-div-icon{background:#fff;border:1px solid #666}.leaflet-tooltip{position:absolute;padding:6px;background-color:#fff;border:1px solid #fff;border-radius:3px;color:#222;white-space:nowrap;-webkit-user-select:none;-moz-user-select:none;-ms-user-select:none;user-select:none;pointer-events:none;box-shadow:0 1px 3px #0006}.leaflet-tooltip.leaflet-interactive{cursor:pointer;pointer-events:auto}.leaflet-tooltip-top:before,.leaflet-tooltip-bottom:before,.leaflet-tooltip-left:before,.leaflet-tooltip-right:before{position:absolute;pointer-events:none;border:6px solid transparent;background:transparent;content:""}.leaflet-tooltip-bottom{margin-top:6px}.leaflet-tooltip-top{margin-top:-6px}.leaflet-tooltip-bottom:before,.leaflet-tooltip-top:before{left:50%;margin-left:-6px}.leaflet-tooltip-top:before{bottom:0;margin-bottom:-12px;border-top-color:#fff}.leaflet-tooltip-bottom:before{top:0;margin-top:-12px;margin-left:-6px;border-bottom-color:#fff}.leaflet-tooltip-left{margin-left:-6px}.leaflet-tooltip-right{margin-left:6px}.leaflet-tooltip-left:before,.leaflet-tooltip-right:before{top:50%;margin-top:-6px}.leaflet-tooltip-left:before{right:0;margin-right:-12px;border-left-color:#fff}.leaflet-tooltip-right:before{left:0;margin-left:-12px;border-right-color:#fff}@media print{.leaflet-control{-webkit-print-color-adjust:exact;print-color-adjust:exact}}`,
-        },
+      children: [
+        ...layers.elements,
+        ...markers.map((marker) => buildMarkerElement(marker, slug, parseFloat(dataset.minZoom))),
       ],
-      js: [
-        {
-          loadTime: "afterDOMReady",
-          src: `https://unpkg.com/leaflet@${C.versions.leaflet}`,
-          contentType: "external",
-        },
-        {
-          loadTime: "beforeDOMReady",
-          src: `https://unpkg.com/lucide@${C.versions.lucide}`,
-          contentType: "external",
+    },
+    link: `${resolveRelative(slug, definition.slug)}?${params}`,
+  };
+}
+
+/**
+ * REPORT.TS
+ */
+
+function formatDiagnostic({ file, entry, index, field, reason }: MapDiagnostic): string {
+  return `  ${file}: ${entry} ${index + 1}${field ? ` "${field}"` : ""} ${reason}`;
+}
+
+// Entries on maps no base defines, maps nothing is shown on, and a default map that does not exist
+function crossCheckMaps(opts: Options, content: ProcessedContent[]): string[] {
+  const files = content.map(([_tree, file]) => file.data);
+  const definitions = files.flatMap((file) => file.leafletMaps ?? []);
+  const mapNames = new Set(definitions.map(({ map }) => map.name).filter((name) => name));
+
+  const defaultMap = opts.markersWithoutMap;
+  const defaultMapWarnings =
+    typeof defaultMap === "object" && !mapNames.has(defaultMap.map)
+      ? [
+          `  markersWithoutMap names the map "${defaultMap.map}", but no leaflet-map view has that name`,
+        ]
+      : [];
+
+  const orphanWarnings = files.flatMap((file) => {
+    const kinds = [
+      ["markers", file.mapMarkers ?? []],
+      ["regions", file.mapRegions ?? []],
+      ["paths", file.mapPaths ?? []],
+    ] as const;
+    return kinds.flatMap(([kind, entries]) =>
+      [...new Set(entries.map((entry) => entry.mapName))]
+        .filter((mapName) => mapName && !mapNames.has(mapName))
+        .map(
+          (mapName) =>
+            `  ${file.relativePath}: ${kind} on the map "${mapName}" are not shown, no leaflet-map view has that name`,
+        ),
+    );
+  });
+
+  const emptyMapWarnings = files.flatMap((file) =>
+    (file.leafletMaps ?? [])
+      .filter(({ markerCount }) => markerCount === 0)
+      .map(
+        ({ map, index }) =>
+          `  ${file.relativePath}: map ${index + 1}${map.name ? ` "${map.name}"` : ""} has no markers`,
+      ),
+  );
+
+  return [...defaultMapWarnings, ...orphanWarnings, ...emptyMapWarnings];
+}
+
+// Lists the entries left off the maps, or fails the build on them in strict mode
+function reportDiagnostics(ctx: BuildCtx, opts: Options, content: ProcessedContent[]): void {
+  const diagnostics = content.flatMap(([_tree, file]) => file.data.leafletDiagnostics ?? []);
+  const warnings = crossCheckMaps(opts, content);
+  if (diagnostics.length === 0 && warnings.length === 0) return;
+
+  // An entry can have several issues, each of which is listed
+  const entryCount = new Set(
+    diagnostics.map(({ file, entry, index }) => `${file}:${entry}:${index}`),
+  ).size;
+  const entries = entryCount === 1 ? "invalid map entry" : "invalid map entries";
+  const heading = `Left ${entryCount} ${entries} off the maps:`;
+
+  const log = new QuartzLogger(ctx.argv.verbose);
+  log.start("Checking maps");
+  const sections = [
+    diagnostics.length > 0 &&
+      styleText(
+        opts.strict ? "red" : "yellow",
+        [heading, ...diagnostics.map(formatDiagnostic)].join("\n"),
+      ),
+    warnings.length > 0 &&
+      styleText("yellow", ["Found problems with the maps:", ...warnings].join("\n")),
+  ];
+  log.end(sections.filter(Boolean).join("\n"));
+
+  if (opts.strict && diagnostics.length > 0) {
+    throw new Error(`LeafletMap found ${entryCount} ${entries}`);
+  }
+}
+
+/**
+ * RESOURCES.TS
+ */
+
+function scriptResource(
+  opts: Options,
+  asset: LeafletAsset,
+  src: string,
+  loadTime: JSResource["loadTime"],
+): JSResource {
+  return {
+    loadTime,
+    src,
+    contentType: "external",
+    integrity: opts.integrity ? leafletAssetIntegrity(asset) : undefined,
+  };
+}
+
+// Served by the LeafletAssets emitter when it is enabled, unpkg otherwise. Self-hosted bundles are
+// linked relative to each page, as Quartz links its own scripts, so they load under any base path
+// and without a connection
+function scriptResources(
+  ctx: BuildCtx,
+  opts: Options,
+): Pick<StaticResources, "js" | "additionalHead"> {
+  const scripts = [
+    { asset: leafletAssets.leaflet, version: opts.leafletVersion, loadTime: "afterDOMReady" },
+    { asset: leafletAssets.lucide, version: opts.lucideVersion, loadTime: "beforeDOMReady" },
+  ] as const;
+  const selfHosted = ctx.cfg.plugins.emitters.some(
+    (emitter) => emitter.name === LeafletAssetsEmitterName,
+  );
+  if (!selfHosted) {
+    return {
+      js: scripts.map(({ asset, version, loadTime }) =>
+        scriptResource(opts, asset, leafletAssetCdnUrl({ ...asset, version }), loadTime),
+      ),
+      additionalHead: [],
+    };
+  }
+
+  // Static resources are shared by every page, only the head can differ per page. Scripts there
+  // still run before the map script at the end of the body
+  return {
+    js: [],
+    additionalHead: scripts.map(({ asset }) => (pageData: QuartzPluginData) => {
+      const src = joinSegments(pathToRoot(pageData.slug!), `${leafletAssetSlug(asset)}.js`);
+      return JSResourceToScriptElement(scriptResource(opts, asset, src, "beforeDOMReady"), true);
+    }),
+  };
+}
+
+/**
+ * CORE.TS
+ */
+
+export const LeafletMap: QuartzTransformerPlugin<Partial<Options>> = (userOpts) => {
+  const opts = { ...defaultOptions, ...userOpts };
+  validateOptions(opts);
+  return {
+    name: C.name,
+    markdownPlugins(ctx) {
+      // Resolved on every build, so a site served for days reveals entries as their date passes
+      const sessionDate = getSessionDate(opts);
+      return [
+        () => {
+          // For every file, check if the frontmatter contains marker, region or path data
+          // or the page defines maps, and if so store it on the file for the collection phase
+          return (tree: Root, file: VFile) => {
+            buildMarkerData(ctx, opts, file);
+            buildRegionData(file);
+            buildPathData(file);
+            placeEntries(opts, sessionDate, file);
+            buildMapDefinitions(opts, tree, file);
+          };
         },
-        {
-          loadTime: "afterDOMReady",
-          contentType: "inline",
-          script: `var __extends=this&&this.__extends||function(){var e=function(n,t){return e=Object.setPrototypeOf||{__proto__:[]}instanceof Array&&function(o,i){o.__proto__=i}||function(o,i){for(var r in i)Object.prototype.hasOwnProperty.call(i,r)&&(o[r]=i[r])},e(n,t)};return function(n,t){if(typeof t!="function"&&t!==null)throw new TypeError("Class extends value "+String(t)+" is not a constructor or null");e(n,t);function o(){this.constructor=n}n.prototype=t===null?Object.create(t):(o.prototype=t.prototype,new o)}}(),__assign=this&&this.__assign||function(){return __assign=Object.assign||function(e){for(var n,t=1,o=arguments.length;t<o;t++){n=arguments[t];for(var i in n)Object.prototype.hasOwnProperty.call(n,i)&&(e[i]=n[i])}return e},__assign.apply(this,arguments)},__awaiter=this&&this.__awaiter||function(e,n,t,o){function i(r){return r instanceof t?r:new t(function(l){l(r)})}return new(t||(t=Promise))(function(r,l){function s(c){try{a(o.next(c))}catch(d){l(d)}}function u(c){try{a(o.throw(c))}catch(d){l(d)}}function a(c){c.done?r(c.value):i(c.value).then(s,u)}a((o=o.apply(e,n||[])).next())})},__generator=this&&this.__generator||function(e,n){var t={label:0,sent:function(){if(r[0]&1)throw r[1];return r[1]},trys:[],ops:[]},o,i,r,l=Object.create((typeof Iterator=="function"?Iterator:Object).prototype);return l.next=s(0),l.throw=s(1),l.return=s(2),typeof Symbol=="function"&&(l[Symbol.iterator]=function(){return this}),l;function s(a){return function(c){return u([a,c])}}function u(a){if(o)throw new TypeError("Generator is already executing.");for(;l&&(l=0,a[0]&&(t=0)),t;)try{if(o=1,i&&(r=a[0]&2?i.return:a[0]?i.throw||((r=i.return)&&r.call(i),0):i.next)&&!(r=r.call(i,a[1])).done)return r;switch(i=0,r&&(a=[a[0]&2,r.value]),a[0]){case 0:case 1:r=a;break;case 4:return t.label++,{value:a[1],done:!1};case 5:t.label++,i=a[1],a=[0];continue;case 7:a=t.ops.pop(),t.trys.pop();continue;default:if(r=t.trys,!(r=r.length>0&&r[r.length-1])&&(a[0]===6||a[0]===2)){t=0;continue}if(a[0]===3&&(!r||a[1]>r[0]&&a[1]<r[3])){t.label=a[1];break}if(a[0]===6&&t.label<r[1]){t.label=r[1],r=a;break}if(r&&t.label<r[2]){t.label=r[2],t.ops.push(a);break}r[2]&&t.ops.pop(),t.trys.pop();continue}a=n.call(e,t)}catch(c){a=[6,c],i=0}finally{o=r=0}if(a[0]&5)throw a[1];return{value:a[0]?a[1]:void 0,done:!0}}},C={map:{default:{minZoom:"0",maxZoom:"2",zoomDelta:"0.5",zoomSnap:"0.01",height:"600",scale:"1",unit:""}}};function isNonEmptyObject(e){return!e||typeof e!="object"?!1:Object.keys(e).length>0&&Object.values(e).every(function(n){return typeof n=="string"})}function parseCoordinates(e){var n=e.replace(/\s/g,"").split(",").map(function(t){return parseInt(t)});if(n.length!==2)throw new Error("Coordinates not properly validated");return n}function createIcons(e){lucide.createIcons({attrs:{class:["leaflet-marker-inner-icon"]},root:e})}function distance(e,n){var t=function(o){return o*o};return Math.sqrt(t(e.lat-n.lat)+t(e.lng-n.lng))}function getIcon(e){var n=document.createElement("i");return n.setAttribute("data-lucide",e),lucide.createIcons({root:n}),n}function isMarkerDataSet(e){return!(!isNonEmptyObject(e)||!e.name||!e.link||!e.coordinates||!e.icon||!e.colour||!e.minZoom)}function getMarkerData(e){var n=e.querySelectorAll("div.leaflet-marker"),t=[];return n.forEach(function(o){isMarkerDataSet(o.dataset)&&t.push(o.dataset),o.remove()}),t}function buildMarkerIcon(e,n,t){return L.divIcon({className:"leaflet-marker-icon",html:'<a href="'.concat(e,'"><svg class="leaflet-marker-pin" style="fill:').concat(t,'" viewBox="0 0 32 48"><path d="m32,19c0,12 -12,24 -16,29c-4,-5 -16,-16 -16,-29a16,19 0 0 1 32,0"/></svg><i data-lucide="').concat(n,'"></i></a>'),iconSize:[32,48],iconAnchor:[16,48],tooltipAnchor:[17,-30]})}function addMarker(e,n){function t(h,f,v){var m=1e-5;f.getZoom()>=v-m?h.addTo(f):h.remove();var p=h.getElement();p&&createIcons(p)}var o=e.link,i=e.icon,r=e.colour,l=e.minZoom,s=e.coordinates,u=e.name,a={icon:buildMarkerIcon(o,i,r)},c=parseFloat(l),d=L.marker(parseCoordinates(s),a).bindTooltip(u);t(d,n,c),n.on("zoomend",function(){return t(d,n,c)})}var SubControl=function(){function e(n){this.onSelectCallback=function(){},this.options=__assign(__assign({},C.map.default),{defaultZoom:C.map.default.minZoom,src:""}),this._isSelected=!1,this.index=n.index,this.map=n.map,this.onSelectCallback=n.onSelectCallback}return Object.defineProperty(e.prototype,"isSelected",{get:function(){return this._isSelected},enumerable:!1,configurable:!0}),e.prototype.setSelected=function(n){var t,o;this._isSelected!==n&&(this._isSelected=n,n?((t=this.button)===null||t===void 0||t.classList.add("selected"),this.onSelected()):((o=this.button)===null||o===void 0||o.classList.remove("selected"),this.onDeselected()))},e.prototype.onAdd=function(n){var t=this;this.button=L.DomUtil.create("div","leaflet-control-button",n),this.button.addEventListener("click",function(){return t.onSelectCallback(t.index)}),L.DomEvent.disableClickPropagation(n),this.onAdded()},e.prototype.onRemove=function(){var n,t;this.onRemoved(),(n=this.button)===null||n===void 0||n.removeEventListener("click",function(){}),(t=this.button)===null||t===void 0||t.replaceChildren()},e.prototype.updateSettings=function(n){this.options=__assign(__assign({},this.options),n)},e.prototype.onAdded=function(){throw new Error("Not implemented")},e.prototype.onRemoved=function(){},e.prototype.onSelected=function(){},e.prototype.onDeselected=function(){},e.prototype.mapClicked=function(n){throw new Error("Not implemented")},e}(),PanControl=function(e){__extends(n,e);function n(){return e!==null&&e.apply(this,arguments)||this}return n.prototype.onAdded=function(){this.button&&(this.button.appendChild(lucide.createElement(lucide.MousePointer2)),this.button.ariaLabel="Pan")},n.prototype.mapClicked=function(t){},n}(SubControl),MeasureState;(function(e){e[e.Ready=0]="Ready",e[e.Measuring=1]="Measuring",e[e.Finishing=2]="Finishing",e[e.Done=3]="Done"})(MeasureState||(MeasureState={}));var MeasureControl=function(e){__extends(n,e);function n(){var t=e!==null&&e.apply(this,arguments)||this;return t.state=MeasureState.Ready,t.pathItems=[],t.distance=0,t}return n.prototype.onAdded=function(){this.button&&(this.button.appendChild(lucide.createElement(lucide.Ruler)),this.button.ariaLabel="Measure"),this.lineLayer=L.layerGroup().addTo(this.map),this.pointLayer=L.layerGroup().addTo(this.map),this.pathLine=L.polyline([]).addTo(this.lineLayer),this.previewLine=L.polyline([],{dashArray:"8"}).addTo(this.lineLayer),this.previewTooltip=this.getTooltip(!0).setLatLng([0,0])},n.prototype.onSelected=function(){var t=this;this.map.getContainer().style.cursor="crosshair",this.map.on("mousemove",function(o){t.renderPreview(o.latlng)})},n.prototype.onDeselected=function(){this.map.getContainer().style.cursor="",this.map.removeEventListener("mousemove"),this.resetPath(),this.state=MeasureState.Ready},n.prototype.mapClicked=function(t){var o,i,r;if(!this.lineLayer)throw new Error("Line layer not initialised");switch(this.state){case MeasureState.Ready:case MeasureState.Measuring:{this.state=MeasureState.Measuring,this.pathItems.push(t.latlng),this.renderPath(),(o=this.previewTooltip)===null||o===void 0||o.addTo(this.lineLayer),this.renderPreview(t.latlng);break}case MeasureState.Finishing:{this.state=MeasureState.Done,(i=this.lastElement)===null||i===void 0||i.bindTooltip(this.getTooltip(!0)).bringToFront(),(r=this.previewTooltip)===null||r===void 0||r.remove();break}case MeasureState.Done:this.resetPath(),this.state=MeasureState.Ready}},n.prototype.renderPath=function(){this.cleanLastElement(),this.updatePolyline(this.pathLine,this.pathItems);var t=this.pathItems.at(-1);if(t!==void 0){this.lastElement=this.getCircleMarker(t);var o=this.pathItems.at(-2);o!==void 0&&(this.distance+=distance(t,o)*parseFloat(this.options.scale))}},n.prototype.renderPreview=function(t){var o;if(this.state===MeasureState.Measuring){var i=this.pathItems.at(-1);i!==void 0&&(this.updatePolyline(this.previewLine,[i,t]),this.previewTooltip=(o=this.previewTooltip)===null||o===void 0?void 0:o.setLatLng(t).setContent(this.getContent(this.distance+distance(i,t)*parseFloat(this.options.scale))))}},n.prototype.resetPath=function(){var t,o;this.pathItems=[],this.distance=0,this.cleanLastElement(),(t=this.pointLayer)===null||t===void 0||t.clearLayers(),this.updatePolyline(this.pathLine,[]),this.updatePolyline(this.previewLine,[]),(o=this.previewTooltip)===null||o===void 0||o.remove()},n.prototype.updatePolyline=function(t,o){var i;t?.setLatLngs(o).redraw(),(i=t?.getElement())===null||i===void 0||i.classList.remove("leaflet-interactive")},n.prototype.cleanLastElement=function(){var t,o,i;(t=this.lastElement)===null||t===void 0||t.removeEventListener("click"),(i=(o=this.lastElement)===null||o===void 0?void 0:o.getElement())===null||i===void 0||i.classList.remove("leaflet-interactive")},n.prototype.getTooltip=function(t){return t===void 0&&(t=!1),L.tooltip({permanent:t,offset:[15,0]}).setContent(this.getContent(this.distance))},n.prototype.getCircleMarker=function(t){var o=this;if(!this.pointLayer)throw new Error("Point layer not initialised");return L.circleMarker(t,{radius:4,fill:!0,fillColor:"#3388ff",fillOpacity:1}).addTo(this.pointLayer).addEventListener("click",function(){return o.state=MeasureState.Finishing})},n.prototype.getContent=function(t){var o,i;return"".concat(t.toFixed(1)," ").concat((i=(o=this.options)===null||o===void 0?void 0:o.unit)!==null&&i!==void 0?i:C.map.default.unit)},n}(SubControl),ControlContainer=function(e){__extends(n,e);function n(){var t=e.call(this,{position:"topleft"})||this;return t.controls=[],t.activeIndex=0,t}return n.prototype.onAdd=function(t){var o=this,i;this.registerSubControl(PanControl,t),this.registerSubControl(MeasureControl,t);var r=L.DomUtil.create("div","leaflet-bar leaflet-control");return this.controls.forEach(function(l){return l.onAdd(r)}),(i=this.controls[this.activeIndex])===null||i===void 0||i.setSelected(!0),t.on("click",function(l){return o.controls.forEach(function(s){s.isSelected&&s.mapClicked(l)})}),r},n.prototype.onRemove=function(t){t?.removeEventListener("click"),this.controls.forEach(function(o){return o.onRemove()}),this.controls=[]},n.prototype.updateSettings=function(t){this.controls.forEach(function(o){return o.updateSettings(t)})},n.prototype.registerSubControl=function(t,o){var i=this,r=function(s){var u,a;(u=i.controls.at(i.activeIndex))===null||u===void 0||u.setSelected(!1),(a=i.controls.at(s))===null||a===void 0||a.setSelected(!0),i.activeIndex=s},l={index:this.controls.length,map:o,onSelectCallback:r};this.controls.push(new t(l))},n}(L.Control);function isMapDataSet(e){return!(!isNonEmptyObject(e)||!e.src||!e.height||!e.minZoom||!e.maxZoom||!e.defaultZoom||!e.zoomDelta||!e.scale||!e.unit)}function getImageMeta(e){return __awaiter(this,void 0,Promise,function(){return __generator(this,function(n){return[2,new Promise(function(t,o){var i=new Image;i.onload=function(){return t(i)},i.onerror=function(r){return o(r)},i.src=e})]})})}function initialiseMap(e,n){return __awaiter(this,void 0,Promise,function(){var t,o,i,r,l;return __generator(this,function(s){switch(s.label){case 0:return t=e.dataset,isMapDataSet(t)?[4,getImageMeta(t.src)]:[2];case 1:return o=s.sent(),e.style.aspectRatio=(o.naturalWidth/o.naturalHeight).toString(),i=[[0,0],[o.naturalHeight,o.naturalWidth]],r=L.map(e,{crs:L.CRS.Simple,maxBounds:i,minZoom:parseFloat(t.minZoom),maxZoom:parseFloat(t.maxZoom),zoomSnap:.01,zoomDelta:parseFloat(t.zoomDelta)}),l=new ControlContainer,l.addTo(r),l.updateSettings(t),L.imageOverlay(t.src,i).addTo(r),r.fitBounds(i),n.map(function(u){return addMarker(u,r)}),r.setZoom(parseFloat(t.defaultZoom)),[2,r]}})})}function cleanupMap(e){e?.clearAllEventListeners(),e?.remove()}document.addEventListener("nav",function(){return __awaiter(void 0,void 0,void 0,function(){var e;return __generator(this,function(n){return e=document.querySelectorAll("div.leaflet-map"),e.forEach(function(t){return __awaiter(void 0,void 0,void 0,function(){var o,i;return __generator(this,function(r){switch(r.label){case 0:return o=getMarkerData(t),[4,initialiseMap(t,o)];case 1:return i=r.sent(),window.addCleanup(function(){return cleanupMap(i)}),[2]}})})}),[2]})})});`,
+      ];
+    },
+    collect(ctx, files) {
+      // Aggregate the markers of every published file so each map sees the complete set
+      return collectMarkers(ctx, files);
+    },
+    dependsOnCollected(file, previous, next) {
+      // Pages with a map have to be rebuilt when the markers of any note change,
+      // and notes with markers only when the maps their location map is taken from change
+      if (file.data.hasLeafletMap === true) return true;
+      if ((file.data.mapMarkers?.length ?? 0) === 0) return false;
+      const maps = (index: unknown) => JSON.stringify((index as MarkerIndex | undefined)?.maps);
+      return maps(previous) !== maps(next);
+    },
+    report(ctx, content) {
+      reportDiagnostics(ctx, opts, content);
+    },
+    htmlPlugins(ctx) {
+      return [
+        () => {
+          return (tree: Root, file: VFile) => transformMapElement(ctx, opts, tree, file);
         },
-      ],
-    };
-  },
-});
+      ];
+    },
+    externalResources(ctx) {
+      const { js, additionalHead } = scriptResources(ctx, opts);
+      return {
+        css: [
+          {
+            inline: true,
+            content: `.leaflet-map{width:100%;margin:0;z-index:0;background-color:#5078b41a}.leaflet-map .leaflet-image-layer{margin:0!important}.leaflet-control-button{background:var(--lightgray)}.leaflet-marker-icon a,.leaflet-marker-icon .leaflet-marker-pin{position:absolute;width:32px;height:48px;margin:0 auto;z-index:inherit}.leaflet-marker-icon .leaflet-marker-inner-icon{position:absolute;width:32px;height:19px;font-size:19px;top:8px;left:0;z-index:inherit;margin:0 auto;display:flex;align-items:center;justify-content:center;color:#ebebec}.leaflet-map-property-tag-list{margin:0!important;padding:2px;gap:.3rem;display:flex;color:#ebebec}.leaflet-map-property-tag-item{display:flex;cursor:pointer;padding:0!important;margin:0!important;background:#353535;border-radius:8px;align-items:center;justify-content:space-between}.leaflet-map-property-tag-item-icon{display:flex;justify-content:center;align-items:center;padding:0 .3rem}.leaflet-map-property-tag-item-text{font-size:var(--tag-size);white-space:nowrap}.leaflet-map-property-tag-item-close{display:flex;cursor:pointer;margin-left:.3rem;aspect-ratio:1;justify-content:center;align-items:center;padding:4px;border-radius:8px;color:#ebebec;background:inherit}.leaflet-map-property-tag-item-close:hover{background:#818181b1}.leaflet-map-property-add-item{display:flex;cursor:pointer;aspect-ratio:1;justify-content:center;align-items:center;padding:4px;margin:0!important;border-radius:8px;color:#ebebec;background:#454545}.leaflet-map-property-add-item:hover{background:#818181d0}.leaflet-pane,.leaflet-tile,.leaflet-marker-icon,.leaflet-marker-shadow,.leaflet-tile-container,.leaflet-pane>svg,.leaflet-pane>canvas,.leaflet-zoom-box,.leaflet-image-layer,.leaflet-layer{position:absolute;left:0;top:0}.leaflet-container{overflow:hidden}.leaflet-tile,.leaflet-marker-icon,.leaflet-marker-shadow{-webkit-user-select:none;-moz-user-select:none;user-select:none;-webkit-user-drag:none}.leaflet-tile::selection{background:transparent}.leaflet-safari .leaflet-tile{image-rendering:-webkit-optimize-contrast}.leaflet-safari .leaflet-tile-container{width:1600px;height:1600px;-webkit-transform-origin:0 0;transform-origin:0 0}.leaflet-marker-icon,.leaflet-marker-shadow{display:block}.leaflet-container .leaflet-overlay-pane svg{max-width:none!important;max-height:none!important}.leaflet-container .leaflet-marker-pane img,.leaflet-container .leaflet-shadow-pane img,.leaflet-container .leaflet-tile-pane img,.leaflet-container img.leaflet-image-layer,.leaflet-container .leaflet-tile{max-width:none!important;max-height:none!important;width:auto;padding:0}.leaflet-container img.leaflet-tile{mix-blend-mode:plus-lighter}.leaflet-container.leaflet-touch-zoom{-ms-touch-action:pan-x pan-y;touch-action:pan-x pan-y}.leaflet-container.leaflet-touch-drag{-ms-touch-action:pinch-zoom;touch-action:none;touch-action:pinch-zoom}.leaflet-container.leaflet-touch-drag.leaflet-touch-zoom{-ms-touch-action:none;touch-action:none}.leaflet-container{-webkit-tap-highlight-color:transparent}.leaflet-container a{-webkit-tap-highlight-color:rgba(51,181,229,.4)}.leaflet-tile{filter:inherit;visibility:hidden}.leaflet-tile-loaded{visibility:inherit}.leaflet-zoom-box{width:0;height:0;-moz-box-sizing:border-box;box-sizing:border-box;z-index:800}.leaflet-overlay-pane svg{-moz-user-select:none;user-select:none}.leaflet-pane{z-index:400}.leaflet-tile-pane{z-index:200}.leaflet-overlay-pane{z-index:400}.leaflet-shadow-pane{z-index:500}.leaflet-marker-pane{z-index:600}.leaflet-tooltip-pane{z-index:650}.leaflet-popup-pane{z-index:700}.leaflet-map-pane canvas{z-index:100}.leaflet-map-pane svg{z-index:200}.leaflet-vml-shape{width:1px;height:1px}.lvml{behavior:url(#default#VML);display:inline-block;position:absolute}.leaflet-control{position:relative;z-index:800;pointer-events:visiblePainted;pointer-events:auto}.leaflet-top,.leaflet-bottom{position:absolute;z-index:1000;pointer-events:none}.leaflet-top{top:0}.leaflet-right{right:0}.leaflet-bottom{bottom:0}.leaflet-left{left:0}.leaflet-control{float:left;clear:both}.leaflet-right .leaflet-control{float:right}.leaflet-top .leaflet-control{margin-top:10px}.leaflet-bottom .leaflet-control{margin-bottom:10px}.leaflet-left .leaflet-control{margin-left:10px}.leaflet-right .leaflet-control{margin-right:10px}.leaflet-fade-anim .leaflet-popup{opacity:0;-webkit-transition:opacity .2s linear;-moz-transition:opacity .2s linear;transition:opacity .2s linear}.leaflet-fade-anim .leaflet-map-pane .leaflet-popup{opacity:1}.leaflet-zoom-animated{-webkit-transform-origin:0 0;-ms-transform-origin:0 0;transform-origin:0 0}svg.leaflet-zoom-animated{will-change:transform}.leaflet-zoom-anim .leaflet-zoom-animated{-webkit-transition:-webkit-transform .25s cubic-bezier(0,0,.25,1);-moz-transition:-moz-transform .25s cubic-bezier(0,0,.25,1);transition:transform .25s cubic-bezier(0,0,.25,1)}.leaflet-zoom-anim .leaflet-tile,.leaflet-pan-anim .leaflet-tile{-webkit-transition:none;-moz-transition:none;transition:none}.leaflet-zoom-anim .leaflet-zoom-hide{visibility:hidden}.leaflet-interactive{cursor:pointer}.leaflet-grab{cursor:-webkit-grab;cursor:-moz-grab;cursor:grab}.leaflet-crosshair,.leaflet-crosshair .leaflet-interactive{cursor:crosshair}.leaflet-popup-pane,.leaflet-control{cursor:auto}.leaflet-dragging .leaflet-grab,.leaflet-dragging .leaflet-grab .leaflet-interactive,.leaflet-dragging .leaflet-marker-draggable{cursor:move;cursor:-webkit-grabbing;cursor:-moz-grabbing;cursor:grabbing}.leaflet-marker-icon,.leaflet-marker-shadow,.leaflet-image-layer,.leaflet-pane>svg path,.leaflet-tile-container{pointer-events:none}.leaflet-marker-icon.leaflet-interactive,.leaflet-image-layer.leaflet-interactive,.leaflet-pane>svg path.leaflet-interactive,svg.leaflet-image-layer.leaflet-interactive path{pointer-events:visiblePainted;pointer-events:auto}.leaflet-container{background:var(--lightgray);outline-offset:1px}.leaflet-container a{color:#0078a8}.leaflet-zoom-box{border:2px dotted #38f;background:#ffffff80}.leaflet-container{font-family:Helvetica Neue,Arial,Helvetica,sans-serif;font-size:12px;font-size:.75rem;line-height:1.5}.leaflet-bar{border-radius:4px}.leaflet-bar a,.leaflet-bar div{cursor:pointer;background-color:var(--light);border-bottom:1px solid var(--lightgray);border-radius:0;width:26px;height:26px;line-height:26px;display:block;text-align:center;text-decoration:none;color:var(--dark)}.leaflet-bar div svg{margin-top:3px}.leaflet-bar a,.leaflet-bar div,.leaflet-control-layers-toggle{background-position:50% 50%;background-repeat:no-repeat}.leaflet-bar a,.leaflet-control-layers-toggle{display:block}.leaflet-bar a:hover,.leaflet-bar a:focus,.leaflet-bar div:hover,.leaflet-bar div:focus{color:var(--tertiary);background-color:var(--lightgray)}.leaflet-bar a:first-child,.leaflet-bar div:first-child{border-top-left-radius:4px;border-top-right-radius:4px}.leaflet-bar a:last-child,.leaflet-bar div:last-child{border-bottom-left-radius:4px;border-bottom-right-radius:4px;border-bottom:none}.leaflet-bar a.leaflet-disabled,.leaflet-bar div.selected{cursor:default;background-color:var(--darkgray);color:var(--gray)}.leaflet-touch .leaflet-bar a,.leaflet-touch .leaflet-bar div{width:30px;height:30px;line-height:30px}.leaflet-touch .leaflet-bar a:first-child,.leaflet-touch .leaflet-bar div:first-child{border-radius:2px 2px 0 0/2px 2px 0px 0px}.leaflet-touch .leaflet-bar a:last-child,.leaflet-touch .leaflet-bar div:last-child{border-radius:0 0 2px 2px/0px 0px 2px 2px}.leaflet-control-zoom-in,.leaflet-control-zoom-out{font:700 18px Lucida Console,Monaco,monospace;text-indent:1px}.leaflet-touch .leaflet-control-zoom-in,.leaflet-touch .leaflet-control-zoom-out{font-size:22px}.leaflet-control-layers{box-shadow:0 1px 5px #0006;background:#fff;border-radius:5px}.leaflet-control-layers-toggle{background-image:url(images/layers.png);width:36px;height:36px}.leaflet-retina .leaflet-control-layers-toggle{background-image:url(images/layers-2x.png);background-size:26px 26px}.leaflet-touch .leaflet-control-layers-toggle{width:44px;height:44px}.leaflet-control-layers .leaflet-control-layers-list,.leaflet-control-layers-expanded .leaflet-control-layers-toggle{display:none}.leaflet-control-layers-expanded .leaflet-control-layers-list{display:block;position:relative}.leaflet-control-layers-expanded{padding:6px 10px 6px 6px;color:#333;background:#fff}.leaflet-control-layers-scrollbar{overflow-y:scroll;overflow-x:hidden;padding-right:5px}.leaflet-control-layers-selector{margin-top:2px;position:relative;top:1px}.leaflet-control-layers label{display:block;font-size:13px;font-size:1.08333em}.leaflet-control-layers-separator{height:0;border-top:1px solid #ddd;margin:5px -10px 5px -6px}.leaflet-default-icon-path{background-image:url(images/marker-icon.png)}.leaflet-container .leaflet-control-attribution{background:#fff;background:#fffc;margin:0}.leaflet-control-attribution,.leaflet-control-scale-line{padding:0 5px;color:#333;line-height:1.4}.leaflet-control-attribution a{text-decoration:none}.leaflet-control-attribution a:hover,.leaflet-control-attribution a:focus{text-decoration:underline}.leaflet-attribution-flag{display:inline!important;vertical-align:baseline!important;width:1em;height:.6669em}.leaflet-left .leaflet-control-scale{margin-left:5px}.leaflet-bottom .leaflet-control-scale{margin-bottom:5px}.leaflet-control-scale-line{border:2px solid #777;border-top:none;line-height:1.1;padding:2px 5px 1px;white-space:nowrap;-moz-box-sizing:border-box;box-sizing:border-box;background:#fffc;text-shadow:1px 1px #fff}.leaflet-control-scale-line:not(:first-child){border-top:2px solid #777;border-bottom:none;margin-top:-2px}.leaflet-control-scale-line:not(:first-child):not(:last-child){border-bottom:2px solid #777}.leaflet-touch .leaflet-control-attribution,.leaflet-touch .leaflet-control-layers,.leaflet-touch .leaflet-bar{box-shadow:none}.leaflet-touch .leaflet-control-layers,.leaflet-touch .leaflet-bar{border:2px solid rgba(0,0,0,.2);background-clip:padding-box}.leaflet-popup{position:absolute;text-align:center;margin-bottom:20px}.leaflet-popup-content-wrapper{padding:1px;text-align:left;border-radius:12px}.leaflet-popup-content{margin:13px 24px 13px 20px;line-height:1.3;font-size:13px;font-size:1.08333em;min-height:1px}.leaflet-popup-content p{margin:1.3em 0}.leaflet-popup-tip-container{width:40px;height:20px;position:absolute;left:50%;margin-top:-1px;margin-left:-20px;overflow:hidden;pointer-events:none}.leaflet-popup-tip{width:17px;height:17px;padding:1px;margin:-10px auto 0;pointer-events:auto;-webkit-transform:rotate(45deg);-moz-transform:rotate(45deg);-ms-transform:rotate(45deg);transform:rotate(45deg)}.leaflet-popup-content-wrapper,.leaflet-popup-tip{background:#fff;color:#333;box-shadow:0 3px 14px #0006}.leaflet-container a.leaflet-popup-close-button{position:absolute;top:0;right:0;border:none;text-align:center;width:24px;height:24px;font:16px/24px Tahoma,Verdana,sans-serif;color:#757575;text-decoration:none;background:transparent}.leaflet-container a.leaflet-popup-close-button:hover,.leaflet-container a.leaflet-popup-close-button:focus{color:#585858}.leaflet-popup-scrolled{overflow:auto}.leaflet-oldie .leaflet-popup-content-wrapper{-ms-zoom:1;zoom:1}.leaflet-oldie .leaflet-popup-tip{width:24px;margin:0 auto;-ms-filter:"progid:DXImageTransform.Microsoft.Matrix(M11=0.70710678, M12=0.70710678, M21=-0.70710678, M22=0.70710678)";filter:progid:DXImageTransform.Microsoft.Matrix(M11=.70710678,M12=.70710678,M21=-.70710678,M22=.70710678)}.leaflet-oldie .leaflet-control-zoom,.leaflet-oldie .leaflet-control-layers,.leaflet-oldie .leaflet-popup-content-wrapper,.leaflet-oldie .leaflet-popup-tip{border:1px solid #999}.leaflet-div-icon{background:#fff;border:1px solid #666}.leaflet-tooltip{position:absolute;padding:6px;background-color:#fff;border:1px solid #fff;border-radius:3px;color:#222;white-space:nowrap;-webkit-user-select:none;-moz-user-select:none;-ms-user-select:none;user-select:none;pointer-events:none;box-shadow:0 1px 3px #0006}.leaflet-tooltip.leaflet-interactive{cursor:pointer;pointer-events:auto}.leaflet-tooltip-top:before,.leaflet-tooltip-bottom:before,.leaflet-tooltip-left:before,.leaflet-tooltip-right:before{position:absolute;pointer-events:none;border:6px solid transparent;background:transparent;content:""}.leaflet-tooltip-bottom{margin-top:6px}.leaflet-tooltip-top{margin-top:-6px}.leaflet-tooltip-bottom:before,.leaflet-tooltip-top:before{left:50%;margin-left:-6px}.leaflet-tooltip-top:before{bottom:0;margin-bottom:-12px;border-top-color:#fff}.leaflet-tooltip-bottom:before{top:0;margin-top:-12px;margin-left:-6px;border-bottom-color:#fff}.leaflet-tooltip-left{margin-left:-6px}.leaflet-tooltip-right{margin-left:6px}.leaflet-tooltip-left:before,.leaflet-tooltip-right:before{top:50%;margin-top:-6px}.leaflet-tooltip-left:before{right:0;margin-right:-12px;border-left-color:#fff}.leaflet-tooltip-right:before{left:0;margin-left:-12px;border-right-color:#fff}@media print{.leaflet-control{-webkit-print-color-adjust:exact;print-color-adjust:exact}}`,
+          },
+          {
+            inline: true,
+            content: leafletStyle,
+          },
+        ],
+        js: [
+          ...js,
+          {
+            loadTime: "afterDOMReady",
+            contentType: "inline",
+            script: leafletScript,
+          },
+        ],
+        additionalHead,
+      };
+    },
+  };
+};
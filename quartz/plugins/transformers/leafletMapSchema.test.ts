@@ -0,0 +1,183 @@
+import test, { describe } from "node:test";
+import assert from "node:assert";
+import {
+  SchemaValidator,
+  Validator,
+  checkProperEntry,
+  checkSchema,
+  isProperEntry,
+  markerSchema,
+  normaliseCoordinateList,
+  normaliseCoordinates,
+  parseDate,
+  regionSchema,
+} from "./leafletMapSchema";
+
+describe("normaliseCoordinates", () => {
+  test("text", () => {
+    assert.strictEqual(normaliseCoordinates("12, 40"), "12, 40");
+    assert.strictEqual(normaliseCoordinates("12,40"), "12, 40");
+    assert.strictEqual(normaliseCoordinates(" 012.50 , -3 "), "12.5, -3");
+    assert.strictEqual(normaliseCoordinates("-.5, .25"), "-0.5, 0.25");
+    assert.strictEqual(normaliseCoordinates("1., 2"), undefined);
+    assert.strictEqual(normaliseCoordinates("12, 40abc"), undefined);
+    assert.strictEqual(normaliseCoordinates("a12, 40"), undefined);
+    assert.strictEqual(normaliseCoordinates("12, 40, 3"), undefined);
+    assert.strictEqual(normaliseCoordinates("12"), undefined);
+    assert.strictEqual(normaliseCoordinates(""), undefined);
+  });
+
+  test("[lat, lng] lists", () => {
+    assert.strictEqual(normaliseCoordinates([12, 40]), "12, 40");
+    assert.strictEqual(normaliseCoordinates([-0.5, 0]), "-0.5, 0");
+    assert.strictEqual(normaliseCoordinates([1]), undefined);
+    assert.strictEqual(normaliseCoordinates([1, 2, 3]), undefined);
+    assert.strictEqual(normaliseCoordinates(["1", 2]), undefined);
+    assert.strictEqual(normaliseCoordinates([1, NaN]), undefined);
+    assert.strictEqual(normaliseCoordinates([]), undefined);
+  });
+
+  test("{ x, y } objects", () => {
+    assert.strictEqual(normaliseCoordinates({ x: 40, y: 12 }), "12, 40");
+    assert.strictEqual(normaliseCoordinates({ y: 12, x: 40 }), "12, 40");
+    assert.strictEqual(normaliseCoordinates({ x: 1 }), undefined);
+    assert.strictEqual(normaliseCoordinates({ x: "40", y: 12 }), undefined);
+    assert.strictEqual(normaliseCoordinates({}), undefined);
+  });
+
+  test("other values", () => {
+    assert.strictEqual(normaliseCoordinates(undefined), undefined);
+    assert.strictEqual(normaliseCoordinates(null), undefined);
+    assert.strictEqual(normaliseCoordinates(12), undefined);
+  });
+
+  test("lists of coordinates", () => {
+    assert.deepStrictEqual(normaliseCoordinateList(["1, 2", [3, 4], { x: 6, y: 5 }]), [
+      "1, 2",
+      "3, 4",
+      "5, 6",
+    ]);
+    assert.deepStrictEqual(normaliseCoordinateList([]), []);
+    assert.strictEqual(normaliseCoordinateList(["1, 2", "3"]), undefined);
+    assert.strictEqual(normaliseCoordinateList("1, 2"), undefined);
+  });
+});
+
+describe("validators", () => {
+  test("coordinates", () => {
+    assert(Validator.coordinates("12, 40"));
+    assert(Validator.coordinates("-.5, 1"));
+    assert(!Validator.coordinates("1., 2"));
+    assert(!Validator.coordinates("12, 40 km"));
+    assert(!Validator.coordinates([12, 40]));
+  });
+
+  test("colours", () => {
+    assert(Validator.colour("#21409a"));
+    assert(Validator.colour("#FFF"));
+    assert(!Validator.colour("21409a"));
+    assert(!Validator.colour("#21409a;"));
+    assert(!Validator.colour("#2140"));
+    assert(!Validator.colour("red"));
+  });
+
+  test("icons", () => {
+    assert(Validator.icon("house"));
+    assert(Validator.icon("dice-6"));
+    assert(Validator.icon("lucide:map-pin"));
+    assert(!Validator.icon("lucide-house <b>"));
+    assert(!Validator.icon("House"));
+    assert(!Validator.icon("map--pin"));
+    assert(!Validator.icon(""));
+  });
+
+  test("dates", () => {
+    assert(Validator.date("2024-03-01"));
+    assert(Validator.date("2024-03-01T20:00"));
+    assert(Validator.date("2024-03-01 20:00:30Z"));
+    assert(Validator.date("2024-03-01T20:00+02:00"));
+    assert(!Validator.date("2024-13-01"));
+    assert(!Validator.date("2024-02-30"));
+    assert(!Validator.date("1 March 2024"));
+    assert(!Validator.date("2024-03-01 and later"));
+  });
+
+  test("dates without a time are local midnight", () => {
+    assert.strictEqual(parseDate("2024-03-01").getTime(), new Date(2024, 2, 1).getTime());
+    assert.strictEqual(parseDate("2024-03-01T20:00").getTime(), new Date(2024, 2, 1, 20).getTime());
+  });
+
+  test("vertices and points", () => {
+    assert(Validator.vertices(["0, 0", "0, 1", "1, 1"]));
+    assert(!Validator.vertices(["0, 0", "0, 1"]));
+    assert(Validator.points(["0, 0", "0, 1"]));
+    assert(!Validator.points(["0, 0"]));
+    assert(!Validator.points(["0, 0", "north"]));
+  });
+});
+
+describe("schemas", () => {
+  test("valid markers", () => {
+    assert.deepStrictEqual(checkSchema(markerSchema, { coordinates: "12, 40" }), []);
+    assert.deepStrictEqual(
+      checkSchema(markerSchema, {
+        mapName: "Sword Coast",
+        coordinates: "12, 40",
+        icon: "castle",
+        colour: "#21409a",
+        revealAfter: "2024-03-01",
+      }),
+      [],
+    );
+    assert(SchemaValidator.marker({ coordinates: "12, 40" }));
+  });
+
+  test("invalid markers", () => {
+    assert.deepStrictEqual(checkSchema(markerSchema, { icon: "castle" }), [
+      { field: "coordinates", reason: "is required" },
+    ]);
+    assert.deepStrictEqual(checkSchema(markerSchema, { coordinates: "12, 40", colour: "blue" }), [
+      { field: "colour", reason: 'is "blue", expected a hex colour such as "#21409a"' },
+    ]);
+    assert.deepStrictEqual(checkSchema(markerSchema, { coordinates: "12", minZoom: "2" }), [
+      { field: "coordinates", reason: 'is "12", expected coordinates such as "12, 40"' },
+      { field: "minZoom", reason: 'is "2", expected a number' },
+    ]);
+    assert(!SchemaValidator.marker({ coordinates: "12" }));
+  });
+
+  test("entries that are not a set of properties", () => {
+    const issues = [{ reason: "is not a set of properties" }];
+    assert.deepStrictEqual(checkSchema(markerSchema, "12, 40"), issues);
+    assert.deepStrictEqual(checkSchema(markerSchema, {}), issues);
+    assert.deepStrictEqual(checkSchema(markerSchema, null), issues);
+  });
+
+  test("regions", () => {
+    assert.deepStrictEqual(checkSchema(regionSchema, { vertices: ["0, 0", "0, 1", "1, 1"] }), []);
+    assert.deepStrictEqual(checkSchema(regionSchema, { vertices: ["0, 0"], opacity: 2 }), [
+      {
+        field: "vertices",
+        reason: 'is ["0, 0"], expected a list of at least three coordinates',
+      },
+      { field: "opacity", reason: "is 2, expected a number from 0 to 1" },
+    ]);
+  });
+
+  test("proper entries", () => {
+    assert(isProperEntry({ coordinates: "12, 40", minZoom: 2, hidden: false }));
+    assert(!isProperEntry({ coordinates: [12, 40] }));
+    assert(!isProperEntry({}));
+  });
+
+  test("lists and objects outside the schema", () => {
+    assert.deepStrictEqual(checkProperEntry(markerSchema, { coordinates: ["12, 40"] }), []);
+    assert.deepStrictEqual(
+      checkProperEntry(markerSchema, { coordinates: "12, 40", notes: ["a", "b"], extra: {} }),
+      [
+        { field: "notes", reason: "is a list or an object, expected a single value" },
+        { field: "extra", reason: "is a list or an object, expected a single value" },
+      ],
+    );
+  });
+});
@@ -0,0 +1,418 @@
+import { BasesFilter, isBasesFilter } from "../../util/bases";
+
+/**
+ * The shape of markers, regions, paths and map views as written in notes, and the checks that tell
+ * which ones the LeafletMap plugin can use. Kept apart from the plugin so they can be tested.
+ */
+
+/**
+ * TYPES.TS
+ */
+
+export type Wiki = string[][]; // Wiki links take the shape of string[][]
+export type Coordinates = `${number}, ${number}`;
+export type Hex = `#${string}`;
+// Where coordinates count from: `leaflet` from the bottom left corner of the image, as `CRS.Simple`
+// does, and `image-pixels` from the top left corner, as image editors do
+export type CoordinateSystem = "leaflet" | "image-pixels";
+
+export interface MarkerObject {
+  mapName?: string;
+  coordinates: Coordinates;
+  icon?: string;
+  colour?: Hex;
+  minZoom?: number;
+  layer?: string;
+  // Group of the marker in the legend, defaults to the first tag of the note and then to the icon
+  category?: string;
+  // Date from which the marker is shown, see the `sessionDate` option
+  revealAfter?: string;
+  // In-world years the marker exists in, for the timeline of a map
+  from?: number;
+  to?: number;
+}
+
+export interface RegionObject {
+  mapName?: string;
+  // Corners of the polygon, in the same form as the coordinates of a marker
+  vertices: Coordinates[];
+  colour?: Hex;
+  fillColour?: Hex;
+  // Opacity of the fill, the outline is always opaque
+  opacity?: number;
+  // Travelling through the region takes this many times as long, where regions overlap the
+  // highest multiplier counts
+  terrain?: number;
+  revealAfter?: string;
+}
+
+export interface PathObject {
+  mapName?: string;
+  // Points of the line in the order they are travelled
+  points: Coordinates[];
+  colour?: Hex;
+  // Lengths of the dashes and gaps in pixels, such as "8 4"
+  dash?: string;
+  width?: number;
+  revealAfter?: string;
+}
+
+export interface LayerObject {
+  name: string;
+  image: string | Wiki;
+  // Overlays are drawn on top of the selected base layer and can be toggled independently
+  overlay?: boolean;
+  opacity?: number;
+}
+
+// In-world years the timeline slider of a map runs through
+export interface TimelineObject {
+  from: number;
+  to: number;
+}
+
+export interface TravelModeObject {
+  name: string;
+  // Distance covered in a day, in the unit of the map
+  speed: number;
+}
+
+export interface MapObject {
+  name?: string;
+  image?: string | Wiki;
+  layers?: LayerObject[];
+  height?: number;
+  minZoom?: number;
+  maxZoom?: number;
+  defaultZoom?: number;
+  zoomDelta?: number;
+  scale?: number;
+  unit?: string;
+  // Open a preview of the linked note when a marker is clicked, instead of navigating to it
+  popups?: boolean;
+  // Distance in pixels within which markers collapse into a cluster, no clustering when left out
+  clusterRadius?: number;
+  coordinateSystem?: CoordinateSystem;
+  // Pixel of the image at which coordinates on this map start, in its coordinate system
+  origin?: Coordinates;
+  // Pixels of the image per unit of the coordinates
+  axisScale?: number;
+  // The measure tool shows how long the measured distance takes with each of these
+  travel?: TravelModeObject[];
+  timeline?: TimelineObject;
+  filters?: BasesFilter;
+}
+
+export type ValidatorFunction<T> = (value: unknown) => value is T;
+
+// What is wrong with an entry, the field is left out when the entry as a whole cannot be read
+export interface ValidationIssue {
+  field?: string;
+  reason: string;
+}
+
+/**
+ * UTIL.TS
+ */
+
+export const regExp = {
+  hexColourValidation: /^#([0-9A-F]{3}){1,2}$/i,
+  coordinatesValidation: /^\s*(-?\d*\.?\d+)\s*,\s*(-?\d*\.?\d+)\s*$/,
+  // Lucide names, some of which end in a number such as `dice-6`
+  iconValidation: /^([a-z]+:)?[a-z0-9]+(-[a-z0-9]+)*$/,
+  url: /https?:/,
+  arrayString: /^\[.*[\]]$/,
+  dashArray: /^\d+([\s,]+\d+)*$/,
+  version: /^\d+\.\d+\.\d+([-+][\w.-]+)?$/,
+  dateOnly: /^\d{4}-\d{2}-\d{2}$/,
+  date: /^\d{4}-\d{2}-\d{2}([T ]\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:?\d{2})?)?$/,
+} as const;
+
+export function isNonEmptyObject(value: unknown): value is { [key: string]: unknown } {
+  if (!value || typeof value !== "object") return false;
+  return Object.keys(value).length > 0;
+}
+
+/**
+ * Coordinates can be given as "lat, lng", as a `[lat, lng]` list or as an `{ x, y }` object, where
+ * `x` is the longitude. They are stored in the first form.
+ */
+export function normaliseCoordinates(value: unknown): Coordinates | undefined {
+  if (typeof value === "string") {
+    const match = regExp.coordinatesValidation.exec(value);
+    return match ? `${parseFloat(match[1])}, ${parseFloat(match[2])}` : undefined;
+  }
+
+  const pair: unknown[] = Array.isArray(value)
+    ? value
+    : isNonEmptyObject(value)
+      ? [value.y, value.x]
+      : [];
+  const [lat, lng] = pair;
+  if (pair.length !== 2 || !numberValidator(lat) || !numberValidator(lng)) return;
+  return `${lat}, ${lng}`;
+}
+
+export function normaliseCoordinateList(value: unknown): Coordinates[] | undefined {
+  if (!Array.isArray(value)) return;
+  const list = value.map(normaliseCoordinates);
+  return list.every((coordinates) => coordinates !== undefined) ? list : undefined;
+}
+
+// Dates without a time are read as local midnight, like dates with a time but without a timezone,
+// where `new Date` would read them as midnight UTC and reveal entries early west of Greenwich
+export function parseDate(value: string): Date {
+  if (!regExp.dateOnly.test(value)) return new Date(value);
+  const [year, month, day] = value.split("-").map(Number);
+  const date = new Date(year, month - 1, day);
+  // `new Date` rolls days and months that do not exist over into the next month or year
+  return date.getMonth() === month - 1 && date.getDate() === day ? date : new Date(NaN);
+}
+
+/**
+ * VALIDATORS.TS
+ */
+
+type ValidatedProperties = string | Wiki | number | boolean | Coordinates[] | BasesFilter;
+
+export function stringValidator(value: unknown): value is string {
+  return typeof value === "string";
+}
+
+function sourcevalidator(value: unknown): value is string | Wiki {
+  const preparedValue = typeof value === "string" ? value : value?.toString();
+  return !!preparedValue;
+}
+
+export function numberValidator(value: unknown): value is number {
+  return Number.isFinite(value);
+}
+
+function positiveNumberValidator(value: unknown): value is number {
+  return numberValidator(value) && value > 0;
+}
+
+function booleanValidator(value: unknown): value is boolean {
+  return typeof value === "boolean";
+}
+
+function opacityValidator(value: unknown): value is number {
+  return numberValidator(value) && value >= 0 && value <= 1;
+}
+
+function coordinatesValidator(value: unknown): value is Coordinates {
+  return typeof value === "string" && regExp.coordinatesValidation.test(value);
+}
+
+// Polygons need at least three corners and lines at least two points
+function coordinateListValidatorFactory(minLength: number): ValidatorFunction<Coordinates[]> {
+  function coordinateListValidator(value: unknown): value is Coordinates[] {
+    return Array.isArray(value) && value.length >= minLength && value.every(coordinatesValidator);
+  }
+  return coordinateListValidator;
+}
+
+function coordinateSystemValidator(value: unknown): value is CoordinateSystem {
+  return value === "leaflet" || value === "image-pixels";
+}
+
+function dashValidator(value: unknown): value is string {
+  return typeof value === "string" && regExp.dashArray.test(value.trim());
+}
+
+function iconValidator(value: unknown): value is string {
+  return typeof value === "string" && regExp.iconValidation.test(value);
+}
+
+function colourValidator(value: unknown): value is Hex {
+  return typeof value === "string" && regExp.hexColourValidation.test(value);
+}
+
+export function dateValidator(value: unknown): value is string {
+  return typeof value === "string" && regExp.date.test(value) && !isNaN(parseDate(value).getTime());
+}
+
+export const Validator = {
+  string: stringValidator,
+  source: sourcevalidator,
+  number: numberValidator,
+  positiveNumber: positiveNumberValidator,
+  boolean: booleanValidator,
+  opacity: opacityValidator,
+  coordinates: coordinatesValidator,
+  vertices: coordinateListValidatorFactory(3),
+  points: coordinateListValidatorFactory(2),
+  coordinateSystem: coordinateSystemValidator,
+  dash: dashValidator,
+  icon: iconValidator,
+  colour: colourValidator,
+  date: dateValidator,
+  filter: isBasesFilter,
+} as const satisfies Record<string, ValidatorFunction<ValidatedProperties>>;
+
+// How the values each validator accepts are described in diagnostics
+export const expectations = new Map<ValidatorFunction<unknown>, string>([
+  [Validator.string, "text"],
+  [Validator.source, "an image"],
+  [Validator.number, "a number"],
+  [Validator.positiveNumber, "a number above 0"],
+  [Validator.boolean, "true or false"],
+  [Validator.opacity, "a number from 0 to 1"],
+  [Validator.coordinates, 'coordinates such as "12, 40"'],
+  [Validator.vertices, "a list of at least three coordinates"],
+  [Validator.points, "a list of at least two coordinates"],
+  [Validator.coordinateSystem, '"leaflet" or "image-pixels"'],
+  [Validator.dash, 'dash and gap lengths such as "8 4"'],
+  [Validator.icon, "the name of a Lucide icon"],
+  [Validator.colour, 'a hex colour such as "#21409a"'],
+  [Validator.date, 'a date such as "2024-03-01"'],
+  [Validator.filter, "a Bases filter"],
+]);
+
+/**
+ * SCHEMAS.TS
+ */
+
+export type Schema<T extends string> = Record<
+  T,
+  // `expected` describes the accepted values when the validator has no entry in `expectations`
+  { validator: ValidatorFunction<unknown>; required?: boolean; expected?: string }
+>;
+type ValidatedSchemas =
+  | MarkerObject
+  | RegionObject
+  | PathObject
+  | LayerObject
+  | TravelModeObject
+  | TimelineObject
+  | MapObject;
+
+export const markerSchema: Schema<keyof MarkerObject> = {
+  mapName: { validator: Validator.string },
+  coordinates: { validator: Validator.coordinates, required: true },
+  icon: { validator: Validator.icon },
+  colour: { validator: Validator.colour },
+  minZoom: { validator: Validator.number },
+  layer: { validator: Validator.string },
+  category: { validator: Validator.string },
+  revealAfter: { validator: Validator.date },
+  from: { validator: Validator.number },
+  to: { validator: Validator.number },
+};
+export const regionSchema: Schema<keyof RegionObject> = {
+  mapName: { validator: Validator.string },
+  vertices: { validator: Validator.vertices, required: true },
+  colour: { validator: Validator.colour },
+  fillColour: { validator: Validator.colour },
+  opacity: { validator: Validator.opacity },
+  terrain: { validator: Validator.positiveNumber },
+  revealAfter: { validator: Validator.date },
+};
+export const pathSchema: Schema<keyof PathObject> = {
+  mapName: { validator: Validator.string },
+  points: { validator: Validator.points, required: true },
+  colour: { validator: Validator.colour },
+  dash: { validator: Validator.dash },
+  width: { validator: Validator.positiveNumber },
+  revealAfter: { validator: Validator.date },
+};
+const layerSchema: Schema<keyof LayerObject> = {
+  name: { validator: Validator.string, required: true },
+  image: { validator: Validator.source, required: true },
+  overlay: { validator: Validator.boolean },
+  opacity: { validator: Validator.opacity },
+};
+const timelineSchema: Schema<keyof TimelineObject> = {
+  from: { validator: Validator.number, required: true },
+  to: { validator: Validator.number, required: true },
+};
+const travelModeSchema: Schema<keyof TravelModeObject> = {
+  name: { validator: Validator.string, required: true },
+  speed: { validator: Validator.positiveNumber, required: true },
+};
+export const mapSchema: Schema<keyof MapObject> = {
+  name: { validator: Validator.string },
+  image: { validator: Validator.source },
+  layers: {
+    validator: listValidatorFactory(schemaValidatorFactory<LayerObject>(layerSchema)),
+    expected: "a list of layers with a name and an image",
+  },
+  height: { validator: Validator.number },
+  minZoom: { validator: Validator.number },
+  maxZoom: { validator: Validator.number },
+  defaultZoom: { validator: Validator.number },
+  zoomDelta: { validator: Validator.positiveNumber },
+  scale: { validator: Validator.number },
+  unit: { validator: Validator.string },
+  popups: { validator: Validator.boolean },
+  clusterRadius: { validator: Validator.positiveNumber },
+  coordinateSystem: { validator: Validator.coordinateSystem },
+  origin: { validator: Validator.coordinates },
+  axisScale: { validator: Validator.positiveNumber },
+  timeline: {
+    validator: schemaValidatorFactory<TimelineObject>(timelineSchema),
+    expected: "a range of years such as { from: 1200, to: 1450 }",
+  },
+  travel: {
+    validator: listValidatorFactory(schemaValidatorFactory<TravelModeObject>(travelModeSchema)),
+    expected: "a list of travel modes with a name and a speed",
+  },
+  filters: { validator: Validator.filter },
+};
+
+export function checkSchema(schema: Schema<string>, value: unknown): ValidationIssue[] {
+  if (!isNonEmptyObject(value)) return [{ reason: "is not a set of properties" }];
+
+  return Object.entries(schema).flatMap(([field, validate]): ValidationIssue[] => {
+    const property = value[field];
+    if (property === undefined) return validate.required ? [{ field, reason: "is required" }] : [];
+    if (validate.validator(property)) return [];
+
+    const expected = validate.expected ?? expectations.get(validate.validator) ?? "valid";
+    return [{ field, reason: `is ${JSON.stringify(property)}, expected ${expected}` }];
+  });
+}
+
+function schemaValidatorFactory<T extends ValidatedSchemas>(
+  schema: Schema<string>,
+): ValidatorFunction<T> {
+  function schemaValidator(value: unknown): value is T {
+    return checkSchema(schema, value).length === 0;
+  }
+  return schemaValidator;
+}
+
+function listValidatorFactory<T>(validator: ValidatorFunction<T>): ValidatorFunction<T[]> {
+  function listValidator(value: unknown): value is T[] {
+    return Array.isArray(value) && value.every(validator);
+  }
+  return listValidator;
+}
+
+export const SchemaValidator = {
+  marker: schemaValidatorFactory<MarkerObject>(markerSchema),
+  region: schemaValidatorFactory<RegionObject>(regionSchema),
+  path: schemaValidatorFactory<PathObject>(pathSchema),
+  layer: schemaValidatorFactory<LayerObject>(layerSchema),
+  map: schemaValidatorFactory<MapObject>(mapSchema),
+} as const satisfies Record<string, ValidatorFunction<ValidatedSchemas>>;
+
+function isSingleValue(property: unknown): property is string | number | boolean {
+  return (
+    typeof property === "string" || typeof property === "number" || typeof property === "boolean"
+  );
+}
+
+export function isProperEntry(
+  entry: unknown,
+): entry is { [key: string]: string | number | boolean } {
+  if (!isNonEmptyObject(entry)) return false;
+  return Object.values(entry).every(isSingleValue);
+}
+
+// Lists and objects are only allowed where the schema asks for them, and it reports those itself
+export function checkProperEntry(schema: Schema<string>, entry: { [key: string]: unknown }) {
+  return Object.entries(entry)
+    .filter(([field, property]) => !(field in schema) && !isSingleValue(property))
+    .map(([field]) => ({ field, reason: "is a list or an object, expected a single value" }));
+}
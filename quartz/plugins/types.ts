@@ -21,8 +21,26 @@ export type QuartzTransformerPluginInstance = {
   name: string;
   textTransform?: (ctx: BuildCtx, src: string) => string;
   markdownPlugins?: (ctx: BuildCtx) => PluggableList;
+  /**
+   * Aggregates data across every parsed file. Runs once on the main thread after all files went
+   * through the markdown plugins and before any html plugin runs, regardless of how parsing is
+   * spread over worker threads. The (serializable) result is available to html plugins as
+   * `ctx.collected[name]`.
+   */
+  collect?: (ctx: BuildCtx, files: VFile[]) => unknown;
+  /**
+   * Whether the html of a file depends on the change from the `previous` to the `next` data this
+   * plugin collected. During incremental rebuilds such files are re-rendered whenever that data
+   * changes, even if they did not.
+   */
+  dependsOnCollected?: (file: VFile, previous: unknown, next: unknown) => boolean;
   htmlPlugins?: (ctx: BuildCtx) => PluggableList;
   externalResources?: ExternalResourcesFn;
+  /**
+   * Runs once at the end of every build with the published content, e.g. to print problems found
+   * while transforming it. Throwing fails the build, or only reports the error while watching.
+   */
+  report?: (ctx: BuildCtx, content: ProcessedContent[]) => void;
 };
 
 export type QuartzFilterPlugin<Options extends OptionType = undefined> = (
@@ -4,6 +4,7 @@ import remarkRehype from "remark-rehype";
 import { Processor, unified } from "unified";
 import { Root as MDRoot } from "remark-parse/lib";
 import { Root as HTMLRoot } from "hast";
+import { VFile } from "vfile";
 import { MarkdownContent, ProcessedContent } from "../plugins/vfile";
 import { PerfTimer } from "../util/perf";
 import { read } from "to-vfile";
@@ -142,10 +143,25 @@ export function createMarkdownParser(ctx: BuildCtx, mdContent: MarkdownContent[]
   };
 }
 
+function collectPluginData(ctx: BuildCtx, files: VFile[]) {
+  ctx.collected = {};
+  for (const plugin of ctx.cfg.plugins.transformers) {
+    if (plugin.collect) {
+      ctx.collected[plugin.name] = plugin.collect(ctx, files);
+    }
+  }
+}
+
 const clamp = (num: number, min: number, max: number) =>
   Math.min(Math.max(Math.round(num), min), max);
 
-export async function parseMarkdown(ctx: BuildCtx, fps: FilePath[]): Promise<ProcessedContent[]> {
+// `otherFiles` are already parsed files which are not parsed again but still take part in the
+// collection phase, e.g. the unchanged files during an incremental rebuild
+export async function parseMarkdown(
+  ctx: BuildCtx,
+  fps: FilePath[],
+  otherFiles: VFile[] = [],
+): Promise<ProcessedContent[]> {
   const { argv } = ctx;
   const perf = new PerfTimer();
   const log = new QuartzLogger(argv.verbose);
@@ -159,6 +175,7 @@ export async function parseMarkdown(ctx: BuildCtx, fps: FilePath[]): Promise<Pro
   if (concurrency === 1) {
     try {
       const mdRes = await createFileParser(ctx, fps)(createMdProcessor(ctx));
+      collectPluginData(ctx, [...mdRes.map(([_tree, file]) => file), ...otherFiles]);
       res = await createMarkdownParser(ctx, mdRes)(createHtmlProcessor(ctx));
     } catch (error) {
       log.end();
@@ -182,6 +199,7 @@ export async function parseMarkdown(ctx: BuildCtx, fps: FilePath[]): Promise<Pro
       allSlugs: ctx.allSlugs,
       allFiles: ctx.allFiles,
       incremental: ctx.incremental,
+      collected: ctx.collected,
     };
 
     const textToMarkdownPromises: WorkerPromise<MarkdownContent[]>[] = [];
@@ -199,10 +217,17 @@ export async function parseMarkdown(ctx: BuildCtx, fps: FilePath[]): Promise<Pro
       }),
     ).catch(errorHandler);
 
+    // aggregate data from every chunk before any worker starts on the html phase
+    collectPluginData(ctx, [...mdResults.flat().map(([_tree, file]) => file), ...otherFiles]);
+    const htmlCtx: WorkerSerializableBuildCtx = {
+      ...serializableCtx,
+      collected: ctx.collected,
+    };
+
     const markdownToHtmlPromises: WorkerPromise<ProcessedContent[]>[] = [];
     processedFiles = 0;
     for (const mdChunk of mdResults) {
-      markdownToHtmlPromises.push(pool.exec("processHtml", [serializableCtx, mdChunk]));
+      markdownToHtmlPromises.push(pool.exec("processHtml", [htmlCtx, mdChunk]));
     }
     const results: ProcessedContent[][] = await Promise.all(
       markdownToHtmlPromises.map(async (promise) => {
@@ -0,0 +1,114 @@
+import test, { describe } from "node:test";
+import assert from "node:assert";
+import { BasesFile, compileFilter, isBasesFilter } from "./bases";
+
+const flathill: BasesFile = {
+  path: "locations/Flathill.md",
+  tags: ["town", "region/north"],
+  properties: {
+    title: "Flathill",
+    marker: [{ mapName: "test", coordinates: "612, 1347" }],
+    population: 1200,
+    status: "visited",
+  },
+};
+
+const ambush: BasesFile = {
+  path: "encounters/Ambush.md",
+  tags: ["dungeon"],
+  properties: { title: "Ambush" },
+};
+
+const matches = (filter: unknown, file: BasesFile) => compileFilter(filter)(file);
+
+describe("functions", () => {
+  test("file.hasProperty", () => {
+    assert(matches('file.hasProperty("marker")', flathill));
+    assert(!matches('file.hasProperty("marker")', ambush));
+  });
+
+  test("file.hasTag", () => {
+    assert(matches('file.hasTag("town")', flathill));
+    assert(matches('file.hasTag("#town")', flathill));
+    assert(matches('file.hasTag("region")', flathill));
+    assert(matches('file.hasTag("castle", "dungeon")', ambush));
+    assert(!matches('file.hasTag("reg")', flathill));
+    assert(!matches('file.hasTag("town")', ambush));
+  });
+
+  test("file.inFolder", () => {
+    assert(matches('file.inFolder("locations")', flathill));
+    assert(matches('file.inFolder("locations/")', flathill));
+    assert(!matches('file.inFolder("loc")', flathill));
+    assert(!matches('file.inFolder("locations")', ambush));
+  });
+});
+
+describe("expressions", () => {
+  test("file properties", () => {
+    assert(matches('file.name == "Flathill.md"', flathill));
+    assert(matches('file.basename == "Flathill"', flathill));
+    assert(matches('file.folder == "locations"', flathill));
+    assert(matches('file.ext == "md"', flathill));
+  });
+
+  test("note properties", () => {
+    assert(matches('status == "visited"', flathill));
+    assert(matches("note.population > 1000", flathill));
+    assert(matches("population <= 1200", flathill));
+    assert(!matches('status != "visited"', flathill));
+    assert(!matches("population > 1000", ambush));
+    assert(matches("!status", ambush));
+  });
+
+  test("logical operators", () => {
+    assert(matches('file.hasTag("town") && population > 1000', flathill));
+    assert(matches('file.hasTag("dungeon") || file.inFolder("locations")', flathill));
+    assert(matches('!(file.hasTag("dungeon") || status == "hidden")', flathill));
+    assert(!matches('file.hasTag("town") && !file.inFolder("locations")', flathill));
+  });
+});
+
+describe("groups", () => {
+  test("and", () => {
+    const filter = { and: ['file.hasTag("town")', 'file.inFolder("locations")'] };
+    assert(matches(filter, flathill));
+    assert(!matches(filter, ambush));
+  });
+
+  test("or", () => {
+    const filter = { or: ['file.hasTag("town")', 'file.hasTag("dungeon")'] };
+    assert(matches(filter, flathill));
+    assert(matches(filter, ambush));
+  });
+
+  test("not", () => {
+    const filter = { not: ['file.hasTag("dungeon")', 'file.inFolder("private")'] };
+    assert(matches(filter, flathill));
+    assert(!matches(filter, ambush));
+  });
+
+  test("nested", () => {
+    const filter = {
+      and: ['file.hasProperty("title")', { or: ['file.hasTag("dungeon")', { not: ["status"] }] }],
+    };
+    assert(!matches(filter, flathill));
+    assert(matches(filter, ambush));
+  });
+});
+
+describe("validation", () => {
+  test("accepts supported filters", () => {
+    assert(isBasesFilter('file.hasProperty("marker")'));
+    assert(isBasesFilter({ and: ['file.hasTag("a")', { not: ["b == 1"] }] }));
+  });
+
+  test("rejects malformed filters", () => {
+    assert(!isBasesFilter('file.hasProperty("marker"'));
+    assert(!isBasesFilter('file.hasProperty("marker") status'));
+    assert(!isBasesFilter('file.hasLink("Flathill")'));
+    assert(!isBasesFilter({ xor: ["a"] }));
+    assert(!isBasesFilter({ and: "a" }));
+    assert(!isBasesFilter(42));
+  });
+});
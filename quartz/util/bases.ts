@@ -0,0 +1,350 @@
+import { slugTag } from "./path";
+
+/**
+ * A small evaluator for the `filters` of Obsidian Bases.
+ * See https://help.obsidian.md/bases/syntax#Filters for the full syntax, only a subset is supported:
+ * - `and` / `or` / `not` groups, nested arbitrarily
+ * - `file.hasProperty(name)`, `file.hasTag(...tags)` and `file.inFolder(folder)`
+ * - `file.name`, `file.basename`, `file.path`, `file.folder`, `file.ext` and `file.tags`
+ * - note properties, either bare (`status`) or prefixed (`note.status`)
+ * - comparisons (`==`, `!=`, `>`, `>=`, `<`, `<=`), `!`, `&&`, `||` and parentheses
+ */
+export type BasesFilter = string | { and?: BasesFilter[]; or?: BasesFilter[]; not?: BasesFilter[] };
+
+export interface BasesFile {
+  /** Path relative to the content folder, e.g. `locations/Flathill.md` */
+  path: string;
+  tags: string[];
+  properties: { [key: string]: unknown };
+}
+
+export type BasesFilterFunction = (file: BasesFile) => boolean;
+
+type Value = string | number | boolean | null | undefined | Value[] | { [key: string]: unknown };
+type ComparisonOperator = "==" | "!=" | ">" | ">=" | "<" | "<=";
+type LogicalOperator = "&&" | "||";
+
+type Expression =
+  | { type: "literal"; value: Value }
+  | { type: "property"; path: string[] }
+  | { type: "call"; name: string; args: Expression[] }
+  | { type: "not"; operand: Expression }
+  | { type: "logical"; operator: LogicalOperator; left: Expression; right: Expression }
+  | { type: "comparison"; operator: ComparisonOperator; left: Expression; right: Expression };
+
+type Token =
+  | { type: "string"; value: string }
+  | { type: "number"; value: number }
+  | { type: "identifier"; value: string }
+  | { type: "operator"; value: string };
+
+const operators = ["==", "!=", ">=", "<=", "&&", "||", ">", "<", "!", "(", ")", ",", "."];
+const functions = ["file.hasProperty", "file.hasTag", "file.inFolder"];
+
+function tokenize(source: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    const char = source[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '"' || char === "'") {
+      const end = source.indexOf(char, i + 1);
+      if (end === -1) throw new Error(`unterminated string in filter \`${source}\``);
+      tokens.push({ type: "string", value: source.slice(i + 1, end) });
+      i = end + 1;
+      continue;
+    }
+
+    const number = source.slice(i).match(/^-?\d+(\.\d+)?/);
+    if (number) {
+      tokens.push({ type: "number", value: parseFloat(number[0]) });
+      i += number[0].length;
+      continue;
+    }
+
+    const identifier = source.slice(i).match(/^[A-Za-z_][\w-]*/);
+    if (identifier) {
+      tokens.push({ type: "identifier", value: identifier[0] });
+      i += identifier[0].length;
+      continue;
+    }
+
+    const operator = operators.find((op) => source.startsWith(op, i));
+    if (!operator) throw new Error(`unexpected character \`${char}\` in filter \`${source}\``);
+    tokens.push({ type: "operator", value: operator });
+    i += operator.length;
+  }
+
+  return tokens;
+}
+
+function parseExpression(source: string): Expression {
+  const tokens = tokenize(source);
+  let position = 0;
+
+  const peek = (value: string) => {
+    const token = tokens[position];
+    return token?.type === "operator" && token.value === value;
+  };
+
+  const expect = (value: string) => {
+    if (!peek(value)) throw new Error(`expected \`${value}\` in filter \`${source}\``);
+    position++;
+  };
+
+  function parseOr(): Expression {
+    let left = parseAnd();
+    while (peek("||")) {
+      position++;
+      left = { type: "logical", operator: "||", left, right: parseAnd() };
+    }
+    return left;
+  }
+
+  function parseAnd(): Expression {
+    let left = parseUnary();
+    while (peek("&&")) {
+      position++;
+      left = { type: "logical", operator: "&&", left, right: parseUnary() };
+    }
+    return left;
+  }
+
+  function parseUnary(): Expression {
+    if (peek("!")) {
+      position++;
+      return { type: "not", operand: parseUnary() };
+    }
+    return parseComparison();
+  }
+
+  function parseComparison(): Expression {
+    const left = parsePrimary();
+    const token = tokens[position];
+    if (token?.type !== "operator" || !["==", "!=", ">", ">=", "<", "<="].includes(token.value)) {
+      return left;
+    }
+
+    position++;
+    return {
+      type: "comparison",
+      operator: token.value as ComparisonOperator,
+      left,
+      right: parsePrimary(),
+    };
+  }
+
+  function parsePrimary(): Expression {
+    const token = tokens[position++];
+    if (!token) throw new Error(`unexpected end of filter \`${source}\``);
+
+    switch (token.type) {
+      case "string":
+      case "number":
+        return { type: "literal", value: token.value };
+      case "operator": {
+        if (token.value !== "(") break;
+        const expression = parseOr();
+        expect(")");
+        return expression;
+      }
+      case "identifier": {
+        if (token.value === "true" || token.value === "false") {
+          return { type: "literal", value: token.value === "true" };
+        }
+        if (token.value === "null") return { type: "literal", value: null };
+
+        const path = [token.value];
+        while (peek(".")) {
+          position++;
+          const next = tokens[position++];
+          if (next?.type !== "identifier") {
+            throw new Error(`expected a name in filter \`${source}\``);
+          }
+          path.push(next.value);
+        }
+
+        if (!peek("(")) return { type: "property", path };
+
+        const name = path.join(".");
+        if (!functions.includes(name)) {
+          throw new Error(`unsupported function \`${name}\` in filter \`${source}\``);
+        }
+
+        position++;
+        const args: Expression[] = [];
+        while (!peek(")")) {
+          if (args.length > 0) expect(",");
+          args.push(parseOr());
+        }
+        position++;
+        return { type: "call", name, args };
+      }
+    }
+
+    throw new Error(`unexpected \`${token.value}\` in filter \`${source}\``);
+  }
+
+  const expression = parseOr();
+  if (position < tokens.length) {
+    throw new Error(`unexpected \`${tokens[position].value}\` in filter \`${source}\``);
+  }
+  return expression;
+}
+
+function fileProperty(file: BasesFile, name: string): Value {
+  const segments = file.path.split("/");
+  const fileName = segments.at(-1) ?? "";
+  const extensionIndex = fileName.lastIndexOf(".");
+
+  switch (name) {
+    case "name":
+      return fileName;
+    case "basename":
+      return extensionIndex > 0 ? fileName.slice(0, extensionIndex) : fileName;
+    case "ext":
+      return extensionIndex > 0 ? fileName.slice(extensionIndex + 1) : "";
+    case "path":
+      return file.path;
+    case "folder":
+      return segments.slice(0, -1).join("/");
+    case "tags":
+      return file.tags;
+    default:
+      return undefined;
+  }
+}
+
+function resolveProperty(file: BasesFile, path: string[]): Value {
+  const [root, ...rest] = path;
+  if (root === "file" && rest.length === 1) return fileProperty(file, rest[0]);
+
+  const properties = root === "note" ? rest : path;
+  return properties.reduce<Value>((value, key) => {
+    if (!value || typeof value !== "object" || Array.isArray(value)) return undefined;
+    return value[key] as Value;
+  }, file.properties);
+}
+
+function compare(operator: ComparisonOperator, left: Value, right: Value): boolean {
+  if (operator === "==") return left === right;
+  if (operator === "!=") return left !== right;
+
+  const comparable =
+    (typeof left === "number" && typeof right === "number") ||
+    (typeof left === "string" && typeof right === "string");
+  if (!comparable) return false;
+
+  switch (operator) {
+    case ">":
+      return left > right;
+    case ">=":
+      return left >= right;
+    case "<":
+      return left < right;
+    case "<=":
+      return left <= right;
+  }
+}
+
+function callFunction(file: BasesFile, name: string, args: Value[]): boolean {
+  const stringArgs = args.filter((arg): arg is string => typeof arg === "string");
+
+  switch (name) {
+    case "file.hasProperty":
+      return stringArgs.some((property) => file.properties[property] !== undefined);
+    case "file.hasTag":
+      return stringArgs
+        .map((tag) => slugTag(tag.replace(/^#/, "")))
+        .some((tag) =>
+          file.tags.some((fileTag) => fileTag === tag || fileTag.startsWith(`${tag}/`)),
+        );
+    case "file.inFolder":
+      return stringArgs
+        .map((folder) => folder.replace(/^\/+|\/+$/g, ""))
+        .some((folder) => folder === "" || file.path.startsWith(`${folder}/`));
+    default:
+      return false;
+  }
+}
+
+function evaluate(expression: Expression, file: BasesFile): Value {
+  switch (expression.type) {
+    case "literal":
+      return expression.value;
+    case "property":
+      return resolveProperty(file, expression.path);
+    case "call":
+      return callFunction(
+        file,
+        expression.name,
+        expression.args.map((arg) => evaluate(arg, file)),
+      );
+    case "not":
+      return !isTruthy(evaluate(expression.operand, file));
+    case "logical": {
+      const left = isTruthy(evaluate(expression.left, file));
+      if (expression.operator === "&&") return left && isTruthy(evaluate(expression.right, file));
+      return left || isTruthy(evaluate(expression.right, file));
+    }
+    case "comparison":
+      return compare(
+        expression.operator,
+        evaluate(expression.left, file),
+        evaluate(expression.right, file),
+      );
+  }
+}
+
+function isTruthy(value: Value): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  return !!value;
+}
+
+/**
+ * Compiles a Bases filter into a predicate over files.
+ * Throws if the filter is malformed or uses unsupported syntax.
+ */
+export function compileFilter(filter: unknown): BasesFilterFunction {
+  if (typeof filter === "string") {
+    const expression = parseExpression(filter);
+    return (file) => isTruthy(evaluate(expression, file));
+  }
+
+  if (!filter || typeof filter !== "object" || Array.isArray(filter)) {
+    throw new Error(`invalid filter \`${JSON.stringify(filter)}\``);
+  }
+
+  const groups = Object.entries(filter).map(([key, value]) => {
+    if (!Array.isArray(value)) throw new Error(`filter group \`${key}\` must be a list`);
+    const conditions = value.map(compileFilter);
+
+    switch (key) {
+      case "and":
+        return (file: BasesFile) => conditions.every((condition) => condition(file));
+      case "or":
+        return (file: BasesFile) => conditions.some((condition) => condition(file));
+      case "not":
+        return (file: BasesFile) => !conditions.some((condition) => condition(file));
+      default:
+        throw new Error(`unsupported filter group \`${key}\``);
+    }
+  });
+
+  return (file) => groups.every((group) => group(file));
+}
+
+export function isBasesFilter(value: unknown): value is BasesFilter {
+  try {
+    compileFilter(value);
+    return true;
+  } catch {
+    return false;
+  }
+}
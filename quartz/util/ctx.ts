@@ -29,6 +29,8 @@ export interface BuildCtx {
   allFiles: FilePath[];
   trie?: FileTrieNode<BuildTimeTrieData>;
   incremental: boolean;
+  /** Data aggregated by transformer plugins during the collection phase, keyed by plugin name */
+  collected: Record<string, unknown>;
 }
 
 export function trieFromAllFiles(allFiles: QuartzPluginData[]): FileTrieNode<BuildTimeTrieData> {
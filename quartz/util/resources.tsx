@@ -10,6 +10,8 @@ export type JSResource = {
   | {
       src: string;
       contentType: "external";
+      /** Subresource integrity hash of the script */
+      integrity?: string;
     }
   | {
       script: string;
@@ -29,7 +31,14 @@ export function JSResourceToScriptElement(resource: JSResource, preserve?: boole
 
   if (resource.contentType === "external") {
     return (
-      <script key={resource.src} src={resource.src} type={scriptType} data-persist={spaPreserve} />
+      <script
+        key={resource.src}
+        src={resource.src}
+        type={scriptType}
+        integrity={resource.integrity}
+        crossOrigin={resource.integrity ? "anonymous" : undefined}
+        data-persist={spaPreserve}
+      />
     );
   } else {
     const content = resource.script;